@@ -0,0 +1,413 @@
+import type { AssertTrue, IsExact } from "conditional-type-checks";
+import type { ActionFunction, BackgroundActionResult, GadgetRecord } from "../src/index.js";
+import {
+  BackgroundActionHandle,
+  GadgetBackgroundActionTimeoutError,
+  GadgetClientError,
+  GadgetConnection,
+  GadgetErrorGroup,
+  InvalidRecordError,
+} from "../src/index.js";
+import { MockBulkUpdateWidgetAction, MockGlobalAction, MockWidgetCreateAction } from "./mockActions.js";
+import { mockUrqlClient } from "./mockUrqlClient.js";
+
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("BackgroundActionHandle", () => {
+  let connection: GadgetConnection;
+  beforeEach(() => {
+    connection = new GadgetConnection({ endpoint: "https://someapp.gadget.app" });
+    jest.spyOn(connection, "currentClient", "get").mockReturnValue(mockUrqlClient as any);
+  });
+
+  describe("result", () => {
+    type WidgetAction = ActionFunction<
+      { select?: { id?: boolean; name?: boolean } | null },
+      any,
+      { id?: boolean; name?: boolean },
+      { id: string; name: string | null },
+      { id: true }
+    >;
+
+    type _ReturnsRecordsWithTheDefaultSelection = AssertTrue<
+      IsExact<Awaited<ReturnType<BackgroundActionHandle<WidgetAction>["result"]>>, GadgetRecord<{ id: string }>>
+    >;
+    type _ReturnsRecordsWithTheGivenSelection = AssertTrue<
+      IsExact<BackgroundActionResult<WidgetAction, { select: { name: true } }>, GadgetRecord<{ name: string | null }>>
+    >;
+
+    test("doesn't fetch the result until the subscription reports an outcome", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      // the mock subscription ends after each response, and the handle stops waiting when it ends without an outcome
+      const failure = handle.result().catch((error) => error);
+
+      expect(mockUrqlClient.executeSubscription.mock.calls.length).toEqual(1);
+      expect(mockUrqlClient.executeSubscription.mock.calls[0][0].variables).toEqual({ id: "app-job-123" });
+
+      mockUrqlClient.executeSubscription.pushResponse("createWidgetBackgroundOutcome", {
+        data: { backgroundAction: { id: "app-job-123", outcome: null } },
+        stale: false,
+        hasNext: true,
+      });
+      await nextTick();
+
+      expect(mockUrqlClient.executeQuery.mock.calls.length).toEqual(0);
+      expect((await failure).message).toContain("Subscription to background action app-job-123 ended before it reported an outcome.");
+    });
+
+    test("returns the hydrated record once the subscription reports an outcome", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.result();
+
+      mockUrqlClient.executeSubscription.pushResponse("createWidgetBackgroundOutcome", {
+        data: { backgroundAction: { id: "app-job-123", outcome: "completed" } },
+        stale: false,
+        hasNext: false,
+      });
+      await nextTick();
+
+      expect(mockUrqlClient.executeQuery.mock.calls.length).toEqual(1);
+      expect(mockUrqlClient.executeQuery.mock.calls[0][1].requestPolicy).toEqual("network-only");
+
+      mockUrqlClient.executeQuery.pushResponse("createWidgetBackgroundResult", {
+        data: {
+          backgroundAction: {
+            id: "app-job-123",
+            outcome: "completed",
+            result: {
+              success: true,
+              errors: null,
+              widget: { id: "123", name: "foo", createdAt: "2021-01-01T00:00:00.000Z" },
+            },
+          },
+          gadgetMeta: {
+            hydrations: { createdAt: "DateTime" },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      const result = await promise;
+      expect(result.id).toEqual("123");
+      expect(result.createdAt).toBeInstanceOf(Date);
+    });
+
+    test("polls for the result when asked to", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockGlobalAction);
+      const promise = handle.result({}, { mode: "poll", pollIntervalMs: 0 });
+
+      expect(mockUrqlClient.executeSubscription.mock.calls.length).toEqual(0);
+      expect(mockUrqlClient.executeQuery.mock.calls.length).toEqual(1);
+
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", outcome: null, result: null } },
+        stale: false,
+        hasNext: false,
+      });
+      await nextTick();
+      await nextTick();
+
+      expect(mockUrqlClient.executeQuery.mock.calls.length).toEqual(2);
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", outcome: "completed", result: { success: true, errors: null, result: "flipped" } } },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect(await promise).toEqual("flipped");
+    });
+
+    test("reports the status of the action each time it polls", async () => {
+      const onStatus = jest.fn();
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockGlobalAction);
+      const promise = handle.result({}, { mode: "poll", pollIntervalMs: 0, onStatus });
+
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", state: "running", outcome: null, result: null } },
+        stale: false,
+        hasNext: false,
+      });
+      await nextTick();
+      await nextTick();
+
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: {
+          backgroundAction: {
+            id: "app-job-123",
+            state: "completed",
+            outcome: "completed",
+            result: { success: true, errors: null, result: "flipped" },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect(await promise).toEqual("flipped");
+      expect(onStatus.mock.calls).toEqual([
+        [{ id: "app-job-123", state: "running", outcome: null }],
+        [{ id: "app-job-123", state: "completed", outcome: "completed" }],
+      ]);
+    });
+
+    test("stops polling and throws when the timeout elapses before the action finishes", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockGlobalAction);
+      const promise = handle.result({}, { mode: "poll", pollIntervalMs: 10000, timeoutMs: 20 });
+
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", outcome: null, result: null } },
+        stale: false,
+        hasNext: false,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(GadgetBackgroundActionTimeoutError);
+      await expect(promise).rejects.toThrowErrorMatchingInlineSnapshot(`"Timed out waiting for background action app-job-123 after 20ms"`);
+      expect(mockUrqlClient.executeQuery.mock.calls.length).toEqual(1);
+    });
+
+    test("stops waiting when the signal is aborted", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const controller = new AbortController();
+      const promise = handle.result(undefined, { signal: controller.signal });
+
+      expect(mockUrqlClient.executeSubscription.mock.calls.length).toEqual(1);
+      controller.abort();
+
+      await expect(promise).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"Stopped waiting for background action app-job-123 because the signal was aborted"`
+      );
+      expect(mockUrqlClient.executeQuery.mock.calls.length).toEqual(0);
+    });
+
+    test("throws when the handle was made without the action that was enqueued", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {});
+
+      await expect(handle.result()).rejects.toBeInstanceOf(GadgetClientError);
+    });
+
+    test("polls for the result when there's no websocket implementation available", async () => {
+      jest.spyOn(connection, "websocketsAvailable", "get").mockReturnValue(false);
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockGlobalAction);
+      const promise = handle.result();
+
+      expect(mockUrqlClient.executeSubscription.mock.calls.length).toEqual(0);
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", outcome: "completed", result: { success: true, errors: null, result: "flipped" } } },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect(await promise).toEqual("flipped");
+    });
+
+    test("throws the error the action failed with", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.result(undefined, { mode: "poll" });
+
+      mockUrqlClient.executeQuery.pushResponse("createWidgetBackgroundResult", {
+        data: {
+          backgroundAction: {
+            id: "app-job-123",
+            outcome: "failed",
+            result: {
+              success: false,
+              errors: [
+                {
+                  code: "GGT_INVALID_RECORD",
+                  message: "Widget is invalid",
+                  validationErrors: [{ apiIdentifier: "name", message: "is required" }],
+                },
+              ],
+              widget: null,
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(InvalidRecordError);
+    });
+
+    test("throws an error if the action failed without a result", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.result(undefined, { mode: "poll" });
+
+      mockUrqlClient.executeQuery.pushResponse("createWidgetBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", outcome: "failed", result: null } },
+        stale: false,
+        hasNext: false,
+      });
+
+      await expect(promise).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"GGT_BACKGROUND_ACTION_FAILED: Background action app-job-123 finished with outcome failed but returned no result."`
+      );
+    });
+
+    test("throws an error group for bulk actions with failures", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockBulkUpdateWidgetAction);
+      const promise = handle.result(undefined, { mode: "poll" });
+
+      mockUrqlClient.executeQuery.pushResponse("bulkUpdateWidgetsBackgroundResult", {
+        data: {
+          backgroundAction: {
+            id: "app-job-123",
+            outcome: "failed",
+            result: {
+              success: false,
+              errors: [{ code: "GGT_RECORD_NOT_FOUND", message: "Widget 456 not found" }],
+              widgets: [{ id: "123", name: "foo" }],
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      const error: GadgetErrorGroup<any> = await promise.catch((error) => error);
+      expect(error).toBeInstanceOf(GadgetErrorGroup);
+      expect(error.errors[0].code).toEqual("GGT_RECORD_NOT_FOUND");
+      expect(error.results?.[0].id).toEqual("123");
+    });
+
+    test("throws an error if the action was cancelled", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.result(undefined, { mode: "poll" });
+
+      mockUrqlClient.executeQuery.pushResponse("createWidgetBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", outcome: "cancelled", result: null } },
+        stale: false,
+        hasNext: false,
+      });
+
+      await expect(promise).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"GGT_BACKGROUND_ACTION_CANCELLED: Background action app-job-123 was cancelled."`
+      );
+    });
+  });
+
+  describe("status", () => {
+    test("returns the current state of the background action", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.status();
+
+      expect(mockUrqlClient.executeQuery.mock.calls[0][0].variables).toEqual({ id: "app-job-123" });
+      expect(mockUrqlClient.executeQuery.mock.calls[0][1].requestPolicy).toEqual("network-only");
+
+      mockUrqlClient.executeQuery.pushResponse("BackgroundActionStatus", {
+        data: { backgroundAction: { id: "app-job-123", state: "retrying", outcome: null } },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect(await promise).toEqual({ id: "app-job-123", state: "retrying", outcome: null });
+    });
+  });
+
+  describe("attempts", () => {
+    test("returns the attempts made to run the background action", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.attempts();
+
+      mockUrqlClient.executeQuery.pushResponse("BackgroundActionAttempts", {
+        data: {
+          backgroundAction: {
+            id: "app-job-123",
+            attempts: [
+              {
+                id: "1",
+                attemptNumber: 1,
+                state: "failed",
+                startedAt: "2023-01-01T00:00:00.000Z",
+                finishedAt: "2023-01-01T00:00:01.000Z",
+                error: { code: "GGT_UNKNOWN", message: "boom" },
+              },
+              { id: "2", attemptNumber: 2, state: "running", startedAt: "2023-01-01T00:00:05.000Z", finishedAt: null, error: null },
+            ],
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      const attempts = await promise;
+      expect(attempts).toHaveLength(2);
+      expect(attempts[0].startedAt).toEqual(new Date("2023-01-01T00:00:00.000Z"));
+      expect(attempts[0].finishedAt).toEqual(new Date("2023-01-01T00:00:01.000Z"));
+      expect(attempts[0].error).toEqual({ code: "GGT_UNKNOWN", message: "boom" });
+      expect(attempts[1].finishedAt).toBeNull();
+    });
+  });
+
+  describe("cancel", () => {
+    test("cancels the background action and returns its new status", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.cancel();
+
+      expect(mockUrqlClient.executeMutation.mock.calls[0][0].variables).toEqual({ id: "app-job-123" });
+
+      mockUrqlClient.executeMutation.pushResponse("CancelBackgroundAction", {
+        data: {
+          background: {
+            cancelBackgroundAction: {
+              success: true,
+              errors: null,
+              backgroundAction: { id: "app-job-123", state: "cancelled", outcome: "cancelled" },
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect(await promise).toEqual({ id: "app-job-123", state: "cancelled", outcome: "cancelled" });
+    });
+
+    test("throws if the background action can't be cancelled", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.cancel();
+
+      mockUrqlClient.executeMutation.pushResponse("CancelBackgroundAction", {
+        data: {
+          background: {
+            cancelBackgroundAction: {
+              success: false,
+              errors: [{ code: "GGT_BACKGROUND_ACTION_ALREADY_FINISHED", message: "Background action has already finished" }],
+              backgroundAction: null,
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      await expect(promise).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"GGT_BACKGROUND_ACTION_ALREADY_FINISHED: Background action has already finished"`
+      );
+    });
+  });
+
+  describe("retryNow", () => {
+    test("retries the background action right away and returns its new status", async () => {
+      const handle = new BackgroundActionHandle(connection, "app-job-123", {}, MockWidgetCreateAction);
+      const promise = handle.retryNow();
+
+      mockUrqlClient.executeMutation.pushResponse("RetryBackgroundAction", {
+        data: {
+          background: {
+            retryBackgroundAction: {
+              success: true,
+              errors: null,
+              backgroundAction: { id: "app-job-123", state: "running", outcome: null },
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect(await promise).toEqual({ id: "app-job-123", state: "running", outcome: null });
+    });
+  });
+});
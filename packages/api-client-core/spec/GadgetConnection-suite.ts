@@ -622,6 +622,126 @@ export const GadgetConnectionSharedSuite = (queryExtra = "") => {
       expect(customResult.error).toBeUndefined();
       expect(customResult.data).toEqual({ meta: { appName: "some app" } });
     });
+
+    describe("token provider authentication", () => {
+      const inMs = (ms: number) => new Date(Date.now() + ms);
+
+      it("should send the provided token as a bearer token and reuse it until it is about to expire", async () => {
+        nock("https://someapp.gadget.app")
+          .post("/api/graphql?operation=meta", { query: `{\n  meta {\n    appName\n${queryExtra}  }\n}`, variables: {} })
+          .times(2)
+          .reply(200, function () {
+            expect(this.req.headers["authorization"]).toEqual([`Bearer token-1`]);
+            return { data: { meta: { appName: "some app" } } };
+          });
+
+        let calls = 0;
+        const tokenProvider = jest.fn(async () => ({ token: `token-${++calls}`, expiresAt: inMs(60 * 60 * 1000) }));
+        const connection = new GadgetConnection({
+          endpoint: "https://someapp.gadget.app/api/graphql",
+          authenticationMode: { tokenProvider },
+          requestPolicy: "network-only",
+        });
+
+        for (let i = 0; i < 2; i++) {
+          const result = await connection.currentClient
+            .query(
+              gql`
+                {
+                  meta {
+                    appName
+                  }
+                }
+              `,
+              {}
+            )
+            .toPromise();
+
+          expect(result.error).toBeUndefined();
+          expect(result.data).toEqual({ meta: { appName: "some app" } });
+        }
+
+        expect(connection.authenticationMode).toEqual(AuthenticationMode.TokenProvider);
+        expect(tokenProvider).toHaveBeenCalledTimes(1);
+        expect(tokenProvider).toHaveBeenCalledWith({ forceRefresh: false });
+      });
+
+      it("should get a new token ahead of the current one expiring", async () => {
+        const authorizations: string[] = [];
+        nock("https://someapp.gadget.app")
+          .get("/foo")
+          .times(2)
+          .reply(200, function () {
+            authorizations.push(this.req.headers["authorization"]);
+            return "ok";
+          });
+
+        let calls = 0;
+        const tokenProvider = jest.fn(async () => ({ token: `token-${++calls}`, expiresAt: inMs(10_000) }));
+        const connection = new GadgetConnection({
+          endpoint: "https://someapp.gadget.app/api/graphql",
+          authenticationMode: { tokenProvider },
+        });
+
+        await connection.fetch("/foo");
+        await connection.fetch("/foo");
+
+        expect(authorizations).toEqual([["Bearer token-1"], ["Bearer token-2"]]);
+      });
+
+      it("should only ask for one token when many requests need one at the same time", async () => {
+        nock("https://someapp.gadget.app").get("/foo").times(3).reply(200, "ok");
+
+        const tokenProvider = jest.fn(async () => ({ token: "token-1" }));
+        const connection = new GadgetConnection({
+          endpoint: "https://someapp.gadget.app/api/graphql",
+          authenticationMode: { tokenProvider },
+        });
+
+        await Promise.all([connection.fetch("/foo"), connection.fetch("/foo"), connection.fetch("/foo")]);
+
+        expect(tokenProvider).toHaveBeenCalledTimes(1);
+      });
+
+      it("should retry a request once with a new token if the Gadget API rejects the token", async () => {
+        nock("https://someapp.gadget.app")
+          .post("/foo", "some body")
+          .matchHeader("authorization", "Bearer token-1")
+          .reply(401, "Unauthorized")
+          .post("/foo", "some body")
+          .matchHeader("authorization", "Bearer token-2")
+          .reply(200, "ok");
+
+        let calls = 0;
+        const tokenProvider = jest.fn(async () => ({ token: `token-${++calls}`, expiresAt: inMs(60 * 60 * 1000) }));
+        const connection = new GadgetConnection({
+          endpoint: "https://someapp.gadget.app/api/graphql",
+          authenticationMode: { tokenProvider },
+        });
+
+        const response = await connection.fetch("/foo", { method: "POST", body: "some body" });
+
+        expect(response.status).toEqual(200);
+        expect(await response.text()).toEqual("ok");
+        expect(tokenProvider.mock.calls).toEqual([[{ forceRefresh: false }], [{ forceRefresh: true }]]);
+      });
+
+      it("should return the 401 response if the new token is rejected too", async () => {
+        nock("https://someapp.gadget.app").get("/foo").times(2).reply(401, "Unauthorized");
+
+        let calls = 0;
+        const tokenProvider = jest.fn(async () => ({ token: `token-${++calls}` }));
+        const connection = new GadgetConnection({
+          endpoint: "https://someapp.gadget.app/api/graphql",
+          authenticationMode: { tokenProvider },
+        });
+
+        const response = await connection.fetch("/foo");
+
+        expect(response.status).toEqual(401);
+        expect(tokenProvider).toHaveBeenCalledTimes(2);
+      });
+    });
   });
 
   describe("raw fetching", () => {
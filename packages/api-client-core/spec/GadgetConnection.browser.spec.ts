@@ -1,6 +1,7 @@
 /**
  * @jest-environment jsdom
  */
+import nock from "nock";
 import { AuthenticationMode, BrowserSessionStorageType, GadgetConnection, InMemoryStorage } from "../src/index.js";
 import { GadgetConnectionSharedSuite } from "./GadgetConnection-suite.js";
 import { withWindowMissingSupport } from "./helpers.js";
@@ -55,4 +56,168 @@ describe("GadgetConnection in the browser", () => {
       });
     });
   });
+
+  describe("session lifecycle", () => {
+    const endpoint = "https://someapp.gadget.app/api/graphql";
+    const storageKey = `token-${endpoint}`;
+    let connection: GadgetConnection;
+
+    beforeEach(() => {
+      window.localStorage.clear();
+      window.localStorage.setItem(storageKey, "token-123");
+      connection = new GadgetConnection({ endpoint, authenticationMode: { browserSession: true } });
+    });
+
+    afterEach(() => {
+      connection.close();
+    });
+
+    const storageEventFromOtherTab = (init: StorageEventInit) =>
+      window.dispatchEvent(new StorageEvent("storage", { storageArea: window.localStorage, ...init }));
+
+    it("should forget the stored session token, reset the urql client, and notify listeners when the session is cleared", () => {
+      const listener = jest.fn();
+      connection.onSessionChange(listener);
+      const client = connection.currentClient;
+      const subscriptionClient = (connection as any).getBaseSubscriptionClient();
+
+      connection.clearSession();
+
+      expect(window.localStorage.getItem(storageKey)).toBeNull();
+      expect(connection.currentClient).not.toBe(client);
+      expect((connection as any).getBaseSubscriptionClient()).not.toBe(subscriptionClient);
+      expect(listener).toHaveBeenCalledWith({ sessionToken: null, previousSessionToken: "token-123", fromOtherTab: false });
+    });
+
+    it("should notify listeners when the server sets a new session token", async () => {
+      window.localStorage.clear();
+      nock("https://someapp.gadget.app").get("/foo").reply(200, "ok", { "x-set-authorization": "Session token-456" });
+      const listener = jest.fn();
+      connection.onSessionChange(listener);
+      const client = connection.currentClient;
+
+      await connection.fetch("/foo");
+
+      expect(window.localStorage.getItem(storageKey)).toEqual("token-456");
+      expect(listener).toHaveBeenCalledWith({ sessionToken: "token-456", previousSessionToken: null, fromOtherTab: false });
+      // a brand new session doesn't invalidate anything that was cached
+      expect(connection.currentClient).toBe(client);
+    });
+
+    it("should keep the urql client when the server replaces the session token", async () => {
+      nock("https://someapp.gadget.app").get("/foo").reply(200, "ok", { "x-set-authorization": "Session token-456" });
+      const listener = jest.fn();
+      connection.onSessionChange(listener);
+      const client = connection.currentClient;
+
+      await connection.fetch("/foo");
+
+      expect(window.localStorage.getItem(storageKey)).toEqual("token-456");
+      expect(listener).toHaveBeenCalledWith({ sessionToken: "token-456", previousSessionToken: "token-123", fromOtherTab: false });
+      expect(connection.currentClient).toBe(client);
+    });
+
+    it("should keep the urql client when another tab gets a new session token from the server", () => {
+      const client = connection.currentClient;
+
+      window.localStorage.setItem(storageKey, "token-456");
+      storageEventFromOtherTab({ key: storageKey, oldValue: "token-123", newValue: "token-456" });
+
+      expect(connection.currentClient).toBe(client);
+    });
+
+    it("should keep the subscription client connected when the server sends a new session token as it connects", async () => {
+      const sockets: AckingWebSocket[] = [];
+      class AckingWebSocket {
+        static CONNECTING = 0;
+        static OPEN = 1;
+        static CLOSING = 2;
+        static CLOSED = 3;
+        readyState = 0;
+        closed = false;
+        onopen?: () => void;
+        onmessage?: (event: { data: string }) => void;
+        onclose?: (event: { code: number; reason: string }) => void;
+        constructor(readonly url: string, readonly protocol: string) {
+          sockets.push(this);
+          setTimeout(() => {
+            this.readyState = 1;
+            this.onopen?.();
+          }, 0);
+        }
+        send(data: string) {
+          if (JSON.parse(data).type == "connection_init") {
+            setTimeout(
+              () => this.onmessage?.({ data: JSON.stringify({ type: "connection_ack", payload: { sessionToken: "token-456" } }) }),
+              0
+            );
+          }
+        }
+        close() {
+          this.closed = true;
+        }
+      }
+      connection.close();
+      connection = new GadgetConnection({
+        endpoint,
+        authenticationMode: { browserSession: true },
+        websocketImplementation: AckingWebSocket as any,
+      });
+      const subscriptionClient = (connection as any).getBaseSubscriptionClient();
+
+      const connected = new Promise((resolve) => subscriptionClient.on("connected", resolve));
+      subscriptionClient.subscribe(
+        { query: "subscription { widgets { id } }" },
+        { next: jest.fn(), error: jest.fn(), complete: jest.fn() }
+      );
+      await connected;
+      // disposing a client closes its socket asynchronously
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(window.localStorage.getItem(storageKey)).toEqual("token-456");
+      expect(connection.baseSubscriptionClient).toBe(subscriptionClient);
+      expect(sockets).toHaveLength(1);
+      expect(sockets[0].closed).toBe(false);
+    });
+
+    it("should reset the urql client and notify listeners when another tab signs out", () => {
+      const listener = jest.fn();
+      connection.onSessionChange(listener);
+      const client = connection.currentClient;
+
+      window.localStorage.removeItem(storageKey);
+      storageEventFromOtherTab({ key: storageKey, oldValue: "token-123", newValue: null });
+
+      expect(connection.currentClient).not.toBe(client);
+      expect(listener).toHaveBeenCalledWith({ sessionToken: null, previousSessionToken: "token-123", fromOtherTab: true });
+    });
+
+    it("should treat another tab clearing all of storage as signing out", () => {
+      const listener = jest.fn();
+      connection.onSessionChange(listener);
+
+      window.localStorage.clear();
+      storageEventFromOtherTab({ key: null });
+
+      expect(listener).toHaveBeenCalledWith({ sessionToken: null, previousSessionToken: null, fromOtherTab: true });
+    });
+
+    it("should ignore storage events for other keys, and stop listening once the connection is closed or unsubscribed", () => {
+      const listener = jest.fn();
+      const unsubscribe = connection.onSessionChange(listener);
+
+      storageEventFromOtherTab({ key: "something-else", oldValue: "a", newValue: "b" });
+      expect(listener).not.toHaveBeenCalled();
+
+      unsubscribe();
+      storageEventFromOtherTab({ key: storageKey, oldValue: "token-123", newValue: null });
+      expect(listener).not.toHaveBeenCalled();
+
+      const otherListener = jest.fn();
+      connection.onSessionChange(otherListener);
+      connection.close();
+      storageEventFromOtherTab({ key: storageKey, oldValue: "token-123", newValue: null });
+      expect(otherListener).not.toHaveBeenCalled();
+    });
+  });
 });
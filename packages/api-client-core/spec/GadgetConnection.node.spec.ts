@@ -1,3 +1,5 @@
+import nock from "nock";
+import type { SessionStorageAdapter } from "../src/index.js";
 import { AuthenticationMode, BrowserSessionStorageType, GadgetConnection, InMemoryStorage } from "../src/index.js";
 import { GadgetConnectionSharedSuite } from "./GadgetConnection-suite.js";
 
@@ -22,4 +24,103 @@ describe("GadgetConnection in node", () => {
       expect((connection as any).sessionTokenStore).toBeInstanceOf(InMemoryStorage);
     });
   });
+
+  describe("custom session storage adapters", () => {
+    const endpoint = "https://someapp.gadget.app/api/graphql";
+    const storageKey = `token-${endpoint}`;
+
+    /** An async store that only answers reads once they are resolved by the test */
+    const asyncStorage = (values: Record<string, string> = {}) => {
+      const reads: (() => void)[] = [];
+      const storage = {
+        values,
+        getItem: jest.fn((key: string) => new Promise<string | null>((resolve) => reads.push(() => resolve(values[key] ?? null)))),
+        setItem: jest.fn(async (key: string, value: string) => {
+          values[key] = value;
+        }),
+        removeItem: jest.fn(async (key: string) => {
+          delete values[key];
+        }),
+        finishReads: () => reads.splice(0).forEach((read) => read()),
+      };
+      return storage;
+    };
+
+    it("should wait for the stored token to be read before sending the first request", async () => {
+      const storage = asyncStorage({ [storageKey]: "stored-token" });
+      const connection = new GadgetConnection({ endpoint, authenticationMode: { browserSession: { storage } } });
+
+      nock("https://someapp.gadget.app").get("/foo").matchHeader("authorization", "Session stored-token").reply(200, "ok");
+
+      const response = connection.fetch("/foo");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(nock.isDone()).toBe(false);
+
+      storage.finishReads();
+      expect((await response).status).toEqual(200);
+    });
+
+    it("should write new and cleared session tokens back to the storage adapter", async () => {
+      const storage = asyncStorage();
+      const connection = new GadgetConnection({ endpoint, authenticationMode: { browserSession: { storage } } });
+      storage.finishReads();
+
+      nock("https://someapp.gadget.app").get("/foo").reply(200, "ok", { "x-set-authorization": "Session new-token" });
+      await connection.fetch("/foo");
+      await (connection as any).sessionTokenPersisted;
+      expect(storage.values).toEqual({ [storageKey]: "new-token" });
+
+      connection.clearSession();
+      await (connection as any).sessionTokenPersisted;
+      expect(storage.values).toEqual({});
+      expect(storage.removeItem).toHaveBeenCalledWith(storageKey);
+    });
+
+    it("should prefer and persist an initial token over the stored one", async () => {
+      const storage = asyncStorage({ [storageKey]: "stored-token" });
+      const connection = new GadgetConnection({
+        endpoint,
+        authenticationMode: { browserSession: { storage, initialToken: "initial-token" } },
+      });
+      storage.finishReads();
+
+      nock("https://someapp.gadget.app").get("/foo").matchHeader("authorization", "Session initial-token").reply(200, "ok");
+      await connection.fetch("/foo");
+      await (connection as any).sessionTokenPersisted;
+
+      expect(storage.values).toEqual({ [storageKey]: "initial-token" });
+    });
+
+    it("should send requests without a session if the storage adapter fails to read the token", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+      const storage: SessionStorageAdapter = {
+        getItem: async () => {
+          throw new Error("storage unavailable");
+        },
+        setItem: async () => undefined,
+      };
+      const connection = new GadgetConnection({ endpoint, authenticationMode: { browserSession: { storage } } });
+
+      nock("https://someapp.gadget.app")
+        .get("/foo")
+        .reply(200, function () {
+          expect(this.req.headers["authorization"]).toBeUndefined();
+          return "ok";
+        });
+
+      expect((await connection.fetch("/foo")).status).toEqual(200);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("should work with synchronous storage adapters", async () => {
+      const storage = new InMemoryStorage();
+      storage.setItem(storageKey, "stored-token");
+      const connection = new GadgetConnection({ endpoint, authenticationMode: { browserSession: { storage } } });
+
+      nock("https://someapp.gadget.app").get("/foo").matchHeader("authorization", "Session stored-token").reply(200, "ok");
+
+      expect((await connection.fetch("/foo")).status).toEqual(200);
+    });
+  });
 });
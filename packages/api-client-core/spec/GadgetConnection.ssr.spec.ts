@@ -0,0 +1,133 @@
+import gql from "gql-tag";
+import nock from "nock";
+import { BrowserSessionStorageType, GadgetConnection } from "../src/index.js";
+
+nock.disableNetConnect();
+
+const query = gql`
+  {
+    meta {
+      appName
+    }
+  }
+`;
+
+describe("GadgetConnection server side rendering", () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    expect(nock.pendingMocks()).toEqual([]);
+  });
+
+  describe("forking", () => {
+    it("should make requests with the forked authentication mode and headers, without changing the original connection", async () => {
+      nock("https://someapp.gadget.app")
+        .get("/foo")
+        .matchHeader("authorization", "Bearer gsk-forked")
+        .matchHeader("x-forwarded-for", "1.2.3.4")
+        .matchHeader("x-app-header", "app")
+        .reply(200, "forked")
+        .get("/foo")
+        .matchHeader("authorization", "Bearer gsk-original")
+        .reply(200, function () {
+          expect(this.req.headers["x-forwarded-for"]).toBeUndefined();
+          return "original";
+        });
+
+      const connection = new GadgetConnection({
+        endpoint: "https://someapp.gadget.app/api/graphql",
+        authenticationMode: { apiKey: "gsk-original" },
+        headers: { "x-app-header": "app" },
+      });
+      const forked = connection.fork({ authenticationMode: { apiKey: "gsk-forked" }, headers: { "x-forwarded-for": "1.2.3.4" } });
+
+      expect(await (await forked.fetch("/foo")).text()).toEqual("forked");
+      expect(await (await connection.fetch("/foo")).text()).toEqual("original");
+    });
+
+    it("should keep browser sessions separate between forked connections", async () => {
+      nock("https://someapp.gadget.app")
+        .get("/foo")
+        .reply(200, "ok", { "x-set-authorization": "Session token-1" })
+        .get("/foo")
+        .reply(200, function () {
+          expect(this.req.headers["authorization"]).toBeUndefined();
+          return "ok";
+        });
+
+      const connection = new GadgetConnection({
+        endpoint: "https://someapp.gadget.app/api/graphql",
+        authenticationMode: { browserSession: { storageType: BrowserSessionStorageType.Temporary } },
+      });
+      const first = connection.fork();
+      const second = connection.fork();
+
+      await first.fetch("/foo");
+      await second.fetch("/foo");
+    });
+  });
+
+  describe("dehydrating and rehydrating query results", () => {
+    it("should answer queries in the browser with results recorded on the server without fetching them again", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=meta")
+        .reply(200, { data: { meta: { appName: "some app" } } });
+
+      const server = new GadgetConnection({
+        endpoint: "https://someapp.gadget.app/api/graphql",
+        authenticationMode: { anonymous: true },
+        ssr: { isClient: false },
+      }).fork();
+      const serverResult = await server.currentClient.query(query, {}).toPromise();
+      expect(serverResult.data).toEqual({ meta: { appName: "some app" } });
+
+      // round trip the data through JSON like it would be when embedded in server rendered HTML
+      const dehydrated = JSON.parse(JSON.stringify(server.dehydrate()));
+      expect(Object.keys(dehydrated)).toHaveLength(1);
+
+      const browser = new GadgetConnection({
+        endpoint: "https://someapp.gadget.app/api/graphql",
+        authenticationMode: { anonymous: true },
+        ssr: { isClient: true },
+      });
+      browser.rehydrate(dehydrated);
+      const browserResult = await browser.currentClient.query(query, {}).toPromise();
+
+      expect(browserResult.error).toBeUndefined();
+      expect(browserResult.data).toEqual({ meta: { appName: "some app" } });
+    });
+
+    it("should record results separately for each forked connection", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=meta")
+        .reply(200, { data: { meta: { appName: "some app" } } });
+
+      const connection = new GadgetConnection({
+        endpoint: "https://someapp.gadget.app/api/graphql",
+        authenticationMode: { anonymous: true },
+        ssr: { isClient: false },
+      });
+      const first = connection.fork();
+      const second = connection.fork();
+
+      await first.currentClient.query(query, {}).toPromise();
+
+      expect(Object.keys(first.dehydrate())).toHaveLength(1);
+      expect(second.dehydrate()).toEqual({});
+      expect(connection.dehydrate()).toEqual({});
+    });
+
+    it("should require the ssr option", () => {
+      const connection = new GadgetConnection({ endpoint: "https://someapp.gadget.app/api/graphql" });
+
+      expect(() => connection.dehydrate()).toThrowErrorMatchingInlineSnapshot(
+        `"Can't dehydrate query results from a GadgetConnection that wasn't created with the \`ssr\` option"`
+      );
+      expect(() => connection.rehydrate({})).toThrowErrorMatchingInlineSnapshot(
+        `"Can't rehydrate query results into a GadgetConnection that wasn't created with the \`ssr\` option"`
+      );
+    });
+  });
+});
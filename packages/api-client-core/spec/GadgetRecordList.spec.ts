@@ -1,4 +1,4 @@
-import { GadgetConnection, GadgetRecordList, InternalModelManager } from "../src/index.js";
+import { GadgetConnection, GadgetRecord, GadgetRecordList, InternalModelManager } from "../src/index.js";
 
 describe("GadgetRecordList", () => {
   afterEach(() => jest.clearAllMocks());
@@ -116,4 +116,104 @@ describe("GadgetRecordList", () => {
       "Cannot request next page because there isn't one, should check 'hasNextPage' to see if it exists"
     );
   });
+
+  describe("iterating over every page", () => {
+    const recordPages = [["1", "2"], ["3", "4"], ["5"]].map((ids) => ids.map((id) => new GadgetRecord({ id })));
+
+    /** Build a model manager whose findMany pages through `recordPages`, recording the cursor of each page it is asked for */
+    const pagedModelManager = () => {
+      const modelManager = new InternalModelManager("foo", new GadgetConnection({ endpoint: "https://fake-app.gadget.app" }));
+      const pageFor = (index: number, options: Parameters<InternalModelManager["findMany"]>[0]) =>
+        GadgetRecordList.boot(modelManager, recordPages[index], {
+          options,
+          pageInfo: {
+            startCursor: `start${index}`,
+            endCursor: `end${index}`,
+            hasNextPage: index < recordPages.length - 1,
+            hasPreviousPage: index > 0,
+          },
+        });
+      const requestedCursors: (string | null | undefined)[] = [];
+      jest.spyOn(modelManager, "findMany").mockImplementation(async (options) => {
+        requestedCursors.push(options?.after);
+        return pageFor(options?.after ? Number(options.after.slice("end".length)) + 1 : 0, options);
+      });
+      return { modelManager, requestedCursors, firstPage: pageFor(0, { first: 2 }) };
+    };
+
+    test("yields every record across all pages in order with for await", async () => {
+      const { firstPage, requestedCursors } = pagedModelManager();
+
+      const ids: string[] = [];
+      for await (const record of firstPage.all()) {
+        ids.push(record.id);
+      }
+
+      expect(ids).toEqual(["1", "2", "3", "4", "5"]);
+      expect(requestedCursors).toEqual(["end0", "end1"]);
+    });
+
+    test("yields each page of a list returned by findMany", async () => {
+      const { modelManager } = pagedModelManager();
+
+      const pageIds: string[][] = [];
+      for await (const page of (await modelManager.findMany({ first: 2 })).allPages()) {
+        pageIds.push(page.map((record) => record.id));
+      }
+
+      expect(pageIds).toEqual([["1", "2"], ["3", "4"], ["5"]]);
+    });
+
+    test("requests the next page while the records of the current one are processed", async () => {
+      const { firstPage, requestedCursors } = pagedModelManager();
+
+      const cursorsRequestedWhileProcessing: (string | null | undefined)[][] = [];
+      await firstPage.all().forEach((record) => {
+        if (record.id == "1") cursorsRequestedWhileProcessing.push([...requestedCursors]);
+      });
+
+      expect(cursorsRequestedWhileProcessing).toEqual([["end0"]]);
+    });
+
+    test("maps and filters records concurrently, keeping them in order", async () => {
+      const { firstPage } = pagedModelManager();
+
+      let running = 0;
+      let mostRunning = 0;
+      const doubled = await firstPage.all().map(
+        async (record) => {
+          running += 1;
+          mostRunning = Math.max(mostRunning, running);
+          // finish earlier records last to make sure results are ordered by record, not by completion
+          await new Promise((resolve) => setTimeout(resolve, 10 - Number(record.id)));
+          running -= 1;
+          return Number(record.id) * 2;
+        },
+        { concurrency: 3 }
+      );
+      const odd = await firstPage.all().filter(async (record) => Number(record.id) % 2 == 1, { concurrency: 2 });
+
+      expect(doubled).toEqual([2, 4, 6, 8, 10]);
+      expect(mostRunning).toEqual(3);
+      expect(odd.map((record) => record.id)).toEqual(["1", "3", "5"]);
+    });
+
+    test("stops processing records and rejects with the first error thrown while processing them", async () => {
+      const { firstPage } = pagedModelManager();
+
+      const processed: string[] = [];
+      await expect(
+        firstPage.all().forEach(
+          async (record) => {
+            if (record.id == "2") throw new Error("failed to process record 2");
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            processed.push(record.id);
+          },
+          { concurrency: 2 }
+        )
+      ).rejects.toThrow("failed to process record 2");
+
+      expect(processed).toEqual(["1"]);
+    });
+  });
 });
@@ -0,0 +1,571 @@
+import type { OperationResult } from "@urql/core";
+import { mapExchange } from "@urql/core";
+import { AsyncLocalStorage } from "async_hooks";
+import type { ExecutionResult, SubscribePayload } from "graphql-ws";
+import { CloseCode } from "graphql-ws";
+import nock from "nock";
+import type { TransactionStorage } from "../src/index.js";
+import {
+  AsyncLocalTransactionStorage,
+  GadgetClientError,
+  GadgetConnection,
+  GadgetNestedTransaction,
+  GadgetOperationError,
+  GadgetTooManyRequestsError,
+  GadgetTransactionTimeoutError,
+  GadgetUnexpectedCloseError,
+  SingleSlotTransactionStorage,
+  TransactionRolledBack,
+  defaultTransactionStorage,
+  isRetryableTransactionError,
+} from "../src/index.js";
+
+nock.disableNetConnect();
+
+/**
+ * Create a fake graphql-ws client for a transaction that responds successfully to every operation sent to it, recording the name and variables of each one
+ */
+const mockTransactionSocket = (
+  respond: (operationName: string, payload: SubscribePayload) => ExecutionResult | undefined = () => undefined
+) => {
+  const operations: { name: string; variables: Record<string, any> | null | undefined }[] = [];
+  const socket = {
+    subscribe: jest.fn((payload: SubscribePayload, sink: any) => {
+      const name = /^\s*(?:query|mutation|subscription) (\w+)/.exec(payload.query)![1];
+      operations.push({ name, variables: payload.variables });
+      setTimeout(() => {
+        sink.next(respond(name, payload) ?? { data: defaultTransactionResponse(name) });
+        sink.complete();
+      }, 0);
+      return () => null;
+    }),
+    dispose: jest.fn(),
+  };
+
+  return { socket, operations };
+};
+
+const defaultTransactionResponse = (name: string) => {
+  const field = name[0].toLowerCase() + name.slice(1);
+  return { internal: { [field]: true } };
+};
+
+describe("GadgetTransaction", () => {
+  let connection: GadgetConnection;
+  let operations: { name: string; variables: Record<string, any> | null | undefined }[];
+
+  beforeEach(() => {
+    connection = new GadgetConnection({
+      endpoint: "https://someapp.gadget.app",
+      transactionStorage: new AsyncLocalTransactionStorage(AsyncLocalStorage),
+    });
+    const mock = mockTransactionSocket();
+    operations = mock.operations;
+    jest.spyOn(connection as any, "waitForOpenedConnection").mockResolvedValue(mock.socket);
+  });
+
+  test("commits a transaction when the callback succeeds", async () => {
+    const result = await connection.transaction(async () => "result");
+
+    expect(result).toEqual("result");
+    expect(operations.map((operation) => operation.name)).toEqual(["StartTransaction", "CommitTransaction"]);
+  });
+
+  describe("nested transactions", () => {
+    test("run inside a savepoint that is released when the inner callback succeeds", async () => {
+      await connection.transaction(async (outer) => {
+        await connection.transaction(async (inner) => {
+          expect(inner).toBeInstanceOf(GadgetNestedTransaction);
+          expect((inner as GadgetNestedTransaction).parent).toBe(outer);
+          expect(connection.currentClient).toBe(outer.client);
+        });
+      });
+
+      expect(operations).toEqual([
+        { name: "StartTransaction", variables: {} },
+        { name: "CreateSavepoint", variables: { name: "gadget_savepoint_1" } },
+        { name: "ReleaseSavepoint", variables: { name: "gadget_savepoint_1" } },
+        { name: "CommitTransaction", variables: {} },
+      ]);
+    });
+
+    test("roll back only the savepoint when the inner callback throws, letting the outer transaction carry on", async () => {
+      const result = await connection.transaction(async () => {
+        await expect(
+          connection.transaction(async () => {
+            throw new Error("inner failure");
+          })
+        ).rejects.toThrow("inner failure");
+
+        return "outer result";
+      });
+
+      expect(result).toEqual("outer result");
+      expect(operations.map((operation) => operation.name)).toEqual([
+        "StartTransaction",
+        "CreateSavepoint",
+        "RollbackToSavepoint",
+        "CommitTransaction",
+      ]);
+    });
+
+    test("can be explicitly rolled back without rolling back the outer transaction", async () => {
+      await connection.transaction(async (outer) => {
+        await expect(connection.transaction(async (inner) => await inner.rollback())).rejects.toBeInstanceOf(TransactionRolledBack);
+        expect(outer.open).toBe(true);
+      });
+
+      expect(operations.map((operation) => operation.name)).toEqual([
+        "StartTransaction",
+        "CreateSavepoint",
+        "RollbackToSavepoint",
+        "CommitTransaction",
+      ]);
+    });
+
+    test("use a new savepoint for each nested transaction", async () => {
+      await connection.transaction(async () => {
+        await connection.transaction(async () => {
+          await connection.transaction(async () => null);
+        });
+        await connection.transaction(async () => null);
+      });
+
+      expect(operations.filter((operation) => operation.name == "CreateSavepoint").map((operation) => operation.variables)).toEqual([
+        { name: "gadget_savepoint_1" },
+        { name: "gadget_savepoint_2" },
+        { name: "gadget_savepoint_3" },
+      ]);
+    });
+
+    test("roll back the whole transaction when the error isn't handled by the outer callback", async () => {
+      await expect(
+        connection.transaction(async () => {
+          await connection.transaction(async () => {
+            throw new Error("inner failure");
+          });
+        })
+      ).rejects.toThrow("inner failure");
+
+      expect(operations.map((operation) => operation.name)).toEqual([
+        "StartTransaction",
+        "CreateSavepoint",
+        "RollbackToSavepoint",
+        "RollbackTransaction",
+      ]);
+    });
+  });
+
+  describe("retries", () => {
+    test("doesn't retry failed transactions by default", async () => {
+      const run = jest
+        .fn()
+        .mockRejectedValue(new GadgetOperationError("could not serialize access", "GGT_TRANSACTION_SERIALIZATION_FAILURE"));
+
+      await expect(connection.transaction(run)).rejects.toThrow("could not serialize access");
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    test("re-runs the callback in a fresh transaction when it fails with a retryable error", async () => {
+      const transactions: any[] = [];
+      const result = await connection.transaction({ retry: { initialDelayMs: 0 } }, async (transaction) => {
+        transactions.push(transaction);
+        if (transactions.length == 1) {
+          throw new GadgetOperationError("could not serialize access", "GGT_TRANSACTION_SERIALIZATION_FAILURE");
+        }
+        return "result";
+      });
+
+      expect(result).toEqual("result");
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).not.toBe(transactions[1]);
+      expect(operations.map((operation) => operation.name)).toEqual([
+        "StartTransaction",
+        "RollbackTransaction",
+        "StartTransaction",
+        "CommitTransaction",
+      ]);
+    });
+
+    test("retries when the connection can't be opened because of too many requests", async () => {
+      const mock = mockTransactionSocket();
+      jest
+        .spyOn(connection as any, "waitForOpenedConnection")
+        .mockRejectedValueOnce(new GadgetTooManyRequestsError("too many requests"))
+        .mockResolvedValue(mock.socket);
+
+      const run = jest.fn().mockResolvedValue("result");
+      expect(await connection.transaction({ retry: { initialDelayMs: 0 } }, run)).toEqual("result");
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    test("gives up after the maximum number of attempts", async () => {
+      const run = jest
+        .fn()
+        .mockRejectedValue(new GadgetOperationError("could not serialize access", "GGT_TRANSACTION_SERIALIZATION_FAILURE"));
+
+      await expect(connection.transaction({ retry: { maxAttempts: 3, initialDelayMs: 0 } }, run)).rejects.toThrow(
+        "could not serialize access"
+      );
+      expect(run).toHaveBeenCalledTimes(3);
+    });
+
+    test("doesn't retry errors that aren't retryable", async () => {
+      const run = jest.fn().mockRejectedValue(new Error("something else went wrong"));
+
+      await expect(connection.transaction({ retry: true }, run)).rejects.toThrow("something else went wrong");
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    test("uses the given predicate to decide which errors are retryable", async () => {
+      const isRetryable = jest.fn((_error: unknown, attempt: number) => attempt < 2);
+      const run = jest.fn().mockRejectedValue(new Error("something else went wrong"));
+
+      await expect(connection.transaction({ retry: { initialDelayMs: 0, isRetryable } }, run)).rejects.toThrow("something else went wrong");
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(isRetryable.mock.calls.map(([_error, attempt]) => attempt)).toEqual([1, 2]);
+    });
+
+    test("classifies retryable errors", () => {
+      expect(isRetryableTransactionError(new GadgetTooManyRequestsError("too many requests"))).toBe(true);
+      expect(isRetryableTransactionError(new GadgetOperationError("conflict", "GGT_TRANSACTION_SERIALIZATION_FAILURE"))).toBe(true);
+      expect(
+        isRetryableTransactionError(
+          new GadgetUnexpectedCloseError({ type: "close", code: CloseCode.ConnectionAcknowledgementTimeout, reason: "", wasClean: false })
+        )
+      ).toBe(true);
+      expect(
+        isRetryableTransactionError(
+          new GadgetUnexpectedCloseError({ type: "close", code: CloseCode.Forbidden, reason: "", wasClean: false })
+        )
+      ).toBe(false);
+      expect(isRetryableTransactionError(new TransactionRolledBack("Transaction rolled back."))).toBe(false);
+    });
+  });
+
+  describe("concurrent transactions", () => {
+    test("are isolated from each other when started in different async call chains", async () => {
+      let resolveFirst!: () => void;
+      const firstCanFinish = new Promise<void>((resolve) => (resolveFirst = resolve));
+      const clients: Record<string, any> = {};
+
+      const first = connection.transaction(async (transaction) => {
+        clients.first = transaction.client;
+        await firstCanFinish;
+        expect(connection.currentClient).toBe(transaction.client);
+      });
+
+      const second = connection.transaction(async (transaction) => {
+        expect(transaction).not.toBeInstanceOf(GadgetNestedTransaction);
+        clients.second = transaction.client;
+        expect(connection.currentClient).toBe(transaction.client);
+        resolveFirst();
+      });
+
+      await Promise.all([first, second]);
+
+      expect(clients.first).not.toBe(clients.second);
+      expect(operations.map((operation) => operation.name).sort()).toEqual([
+        "CommitTransaction",
+        "CommitTransaction",
+        "StartTransaction",
+        "StartTransaction",
+      ]);
+    });
+
+    test("don't leak outside of the transaction callback", async () => {
+      let transactionClient: any;
+      await connection.transaction(async (transaction) => {
+        transactionClient = transaction.client;
+      });
+
+      expect(connection.currentClient).not.toBe(transactionClient);
+      await connection.transaction(async (transaction) => {
+        expect(transaction).not.toBeInstanceOf(GadgetNestedTransaction);
+      });
+    });
+
+    test("join the open transaction when the connection can only store one transaction at a time", async () => {
+      connection = new GadgetConnection({ endpoint: "https://someapp.gadget.app", transactionStorage: new SingleSlotTransactionStorage() });
+      const mock = mockTransactionSocket();
+      jest.spyOn(connection as any, "waitForOpenedConnection").mockResolvedValue(mock.socket);
+
+      let resolveFirst!: () => void;
+      const firstCanFinish = new Promise<void>((resolve) => (resolveFirst = resolve));
+      let outer: any;
+
+      const first = connection.transaction(async (transaction) => {
+        outer = transaction;
+        await firstCanFinish;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const second = connection.transaction(async (transaction) => {
+        expect((transaction as GadgetNestedTransaction).parent).toBe(outer);
+        resolveFirst();
+      });
+
+      await Promise.all([first, second]);
+      expect(connection.currentClient).not.toBe(outer.client);
+    });
+    test("are tracked with AsyncLocalStorage by default when the runtime provides it", async () => {
+      (globalThis as any).AsyncLocalStorage = AsyncLocalStorage;
+      let storage: TransactionStorage;
+      try {
+        storage = defaultTransactionStorage();
+      } finally {
+        delete (globalThis as any).AsyncLocalStorage;
+      }
+      expect(storage).toBeInstanceOf(AsyncLocalTransactionStorage);
+
+      const transaction = {} as any;
+      const stored = await storage.run(transaction, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        return storage.getStore();
+      });
+
+      expect(stored).toBe(transaction);
+      expect(storage.getStore()).toBeUndefined();
+    });
+
+    test("are tracked with the given AsyncLocalStorage class", async () => {
+      const storage = new AsyncLocalTransactionStorage(AsyncLocalStorage);
+
+      const [first, second] = [{} as any, {} as any];
+      const stored = await Promise.all(
+        [first, second].map((transaction) =>
+          storage.run(transaction, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            return storage.getStore();
+          })
+        )
+      );
+
+      expect(stored[0]).toBe(first);
+      expect(stored[1]).toBe(second);
+    });
+
+    test("store one transaction at a time when no AsyncLocalStorage is available", () => {
+      const storage = new AsyncLocalTransactionStorage(undefined);
+      const transaction = {} as any;
+
+      expect(storage.run(transaction, () => storage.getStore())).toBe(transaction);
+      expect(storage.getStore()).toBeUndefined();
+    });
+  });
+
+  describe("lifecycle callbacks", () => {
+    test("run commit callbacks after the transaction has been committed", async () => {
+      const events: string[] = [];
+
+      await connection.transaction(async (transaction) => {
+        transaction.onCommit(() => {
+          events.push(`committed after ${operations[operations.length - 1].name}`);
+        });
+        transaction.onRollback(() => {
+          events.push("rolled back");
+        });
+      });
+
+      expect(events).toEqual(["committed after CommitTransaction"]);
+    });
+
+    test("run rollback callbacks after the transaction has been rolled back", async () => {
+      const events: string[] = [];
+
+      await expect(
+        connection.transaction(async (transaction) => {
+          transaction.onCommit(() => {
+            events.push("committed");
+          });
+          transaction.onRollback(async () => {
+            events.push(`rolled back after ${operations[operations.length - 1].name}`);
+          });
+          throw new Error("failure");
+        })
+      ).rejects.toThrow("failure");
+
+      expect(events).toEqual(["rolled back after RollbackTransaction"]);
+    });
+
+    test("send API calls made by callbacks outside of the finished transaction", async () => {
+      nock("https://someapp.gadget.app")
+        .post(/operation=GetWidget/)
+        .times(2)
+        .reply(200, { data: { widget: { id: "1" } } });
+      const results: any[] = [];
+      const getWidget = async () => {
+        results.push((await connection.currentClient.query(`query GetWidget { widget(id: "1") { id } }`, {}).toPromise()).data);
+      };
+
+      await connection.transaction(async (transaction) => {
+        transaction.onCommit(getWidget);
+      });
+      await expect(
+        connection.transaction(async (transaction) => {
+          transaction.onRollback(getWidget);
+          throw new Error("failure");
+        })
+      ).rejects.toThrow("failure");
+
+      expect(results).toEqual([{ widget: { id: "1" } }, { widget: { id: "1" } }]);
+      expect(operations.map((operation) => operation.name)).not.toContain("GetWidget");
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test("run callbacks for nested transactions once the outermost transaction commits", async () => {
+      const events: string[] = [];
+
+      await connection.transaction(async () => {
+        await connection.transaction(async (inner) => {
+          inner.onCommit(() => {
+            events.push(`inner committed after ${operations[operations.length - 1].name}`);
+          });
+        });
+        events.push("inner transaction finished");
+      });
+
+      expect(events).toEqual(["inner transaction finished", "inner committed after CommitTransaction"]);
+    });
+
+    test("run rollback callbacks for a nested transaction as soon as it is rolled back, and skip its commit callbacks", async () => {
+      const events: string[] = [];
+
+      await connection.transaction(async (outer) => {
+        outer.onCommit(() => {
+          events.push("outer committed");
+        });
+        await connection
+          .transaction(async (inner) => {
+            inner.onCommit(() => {
+              events.push("inner committed");
+            });
+            inner.onRollback(() => {
+              events.push("inner rolled back");
+            });
+            await inner.rollback();
+          })
+          .catch(() => null);
+      });
+
+      expect(events).toEqual(["inner rolled back", "outer committed"]);
+    });
+
+    test("run rollback callbacks for committed nested transactions when the outer transaction rolls back", async () => {
+      const events: string[] = [];
+
+      await expect(
+        connection.transaction(async () => {
+          await connection.transaction(async (inner) => {
+            inner.onRollback(() => {
+              events.push("inner rolled back");
+            });
+          });
+          throw new Error("outer failure");
+        })
+      ).rejects.toThrow("outer failure");
+
+      expect(events).toEqual(["inner rolled back"]);
+    });
+
+    test("keep running callbacks when one of them throws", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => null);
+      const events: string[] = [];
+
+      await connection.transaction(async (transaction) => {
+        transaction.onCommit(() => {
+          throw new Error("callback failure");
+        });
+        transaction.onCommit(() => {
+          events.push("committed");
+        });
+      });
+
+      expect(events).toEqual(["committed"]);
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    test("can't be registered on a transaction that has finished", async () => {
+      let finished: any;
+      await connection.transaction(async (transaction) => {
+        finished = transaction;
+      });
+
+      expect(() => finished.onCommit(() => null)).toThrowErrorMatchingInlineSnapshot(
+        `"Can't register transaction callbacks on a transaction that isn't open"`
+      );
+    });
+  });
+
+  describe("timeouts", () => {
+    test("roll back the transaction and throw when the callback runs for longer than the timeout", async () => {
+      const onRollback = jest.fn();
+      const promise = connection.transaction({ timeoutMs: 20 }, async (transaction) => {
+        transaction.onRollback(onRollback);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(GadgetTransactionTimeoutError);
+      await expect(promise).rejects.toThrowErrorMatchingInlineSnapshot(`"Transaction timed out after 20ms"`);
+      expect(operations.map((operation) => operation.name)).toEqual(["StartTransaction", "RollbackTransaction"]);
+      expect(onRollback).toHaveBeenCalled();
+    });
+
+    test("fail operations the callback makes after the transaction times out", async () => {
+      let afterTimeout!: Promise<OperationResult>;
+      const promise = connection.transaction({ timeoutMs: 20 }, async (transaction) => {
+        await new Promise((resolve) => transaction.signal.addEventListener("abort", resolve));
+        afterTimeout = connection.currentClient.mutation(`mutation UpdateWidget { updateWidget { success } }`, {}).toPromise();
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(GadgetTransactionTimeoutError);
+      const result = await afterTimeout;
+      expect(result.error?.networkError).toBeInstanceOf(GadgetClientError);
+      expect(operations.map((operation) => operation.name)).toEqual(["StartTransaction", "RollbackTransaction"]);
+    });
+
+    test("don't affect transactions that finish in time", async () => {
+      expect(await connection.transaction({ timeoutMs: 1000 }, async () => "result")).toEqual("result");
+      expect(operations.map((operation) => operation.name)).toEqual(["StartTransaction", "CommitTransaction"]);
+    });
+
+    test("roll back the transaction and throw when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const promise = connection.transaction({ signal: controller.signal }, async () => {
+        controller.abort();
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      });
+
+      await expect(promise).rejects.toThrowErrorMatchingInlineSnapshot(`"Transaction was aborted"`);
+      expect(operations.map((operation) => operation.name)).toEqual(["StartTransaction", "RollbackTransaction"]);
+    });
+
+    test("don't start the transaction if the signal has already been aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const run = jest.fn();
+
+      await expect(connection.transaction({ signal: controller.signal }, run)).rejects.toBeInstanceOf(GadgetTransactionTimeoutError);
+      expect(run).not.toHaveBeenCalled();
+      expect(operations).toEqual([]);
+    });
+
+    test("make the deadline available in the context of operations made within the transaction", async () => {
+      const contexts: any[] = [];
+      connection = new GadgetConnection({
+        endpoint: "https://someapp.gadget.app",
+        exchanges: { beforeAsync: [mapExchange({ onOperation: (operation) => void contexts.push(operation.context) })] },
+      });
+      jest.spyOn(connection as any, "waitForOpenedConnection").mockResolvedValue(mockTransactionSocket().socket);
+
+      const before = Date.now();
+      await connection.transaction({ timeoutMs: 5000 }, async () => null);
+
+      expect(contexts.length).toBeGreaterThan(0);
+      for (const context of contexts) {
+        expect(context.transactionDeadline).toBeInstanceOf(Date);
+        expect(context.transactionDeadline.getTime()).toBeGreaterThanOrEqual(before + 5000);
+      }
+    });
+  });
+});
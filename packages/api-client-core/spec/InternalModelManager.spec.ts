@@ -1,17 +1,24 @@
+import nock from "nock";
 import {
   BrowserSessionStorageType,
   GadgetConnection,
   InternalModelManager,
+  InvalidRecordError,
   internalBulkCreateMutation,
+  internalBulkUpsertMutation,
+  internalCountQuery,
   internalCreateMutation,
   internalDeleteManyMutation,
   internalDeleteMutation,
   internalFindFirstQuery,
   internalFindManyQuery,
   internalUpdateMutation,
+  internalUpsertMutation,
 } from "../src/index.js";
 import { expectValidGraphQLQuery } from "./helpers.js";
 
+nock.disableNetConnect();
+
 describe("InternalModelManager", () => {
   describe("getRecordFromData", () => {
     let connection: GadgetConnection;
@@ -928,4 +935,327 @@ describe("InternalModelManager", () => {
       expectValidGraphQLQuery(result);
     });
   });
+
+  describe("export", () => {
+    const manager = () =>
+      new InternalModelManager(
+        "widget",
+        new GadgetConnection({ endpoint: "https://someapp.gadget.app/api/graphql", authenticationMode: { anonymous: true } })
+      );
+
+    const page = (nodes: Record<string, any>[], endCursor: string, hasNextPage: boolean) => ({
+      data: {
+        gadgetMeta: { hydrations: { createdAt: "DateTime" } },
+        internal: {
+          listWidget: {
+            pageInfo: { hasNextPage, hasPreviousPage: false, startCursor: "start", endCursor },
+            edges: nodes.map((node) => ({ cursor: node.id, node })),
+          },
+        },
+      },
+    });
+
+    const read = async (stream: ReadableStream<string>) => {
+      const reader = stream.getReader();
+      let text = "";
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        text += chunk.value;
+      }
+      return text;
+    };
+
+    beforeEach(() => {
+      nock.cleanAll();
+    });
+
+    afterEach(() => {
+      expect(nock.pendingMocks()).toEqual([]);
+    });
+
+    test("exports every page of records as newline delimited JSON", async () => {
+      const requests: { query: string; variables: Record<string, any> }[] = [];
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalFindManyWidget")
+        .times(2)
+        .reply(200, (_uri, body: any) => {
+          requests.push(body);
+          return body.variables.after
+            ? page([{ id: "2", name: "second", createdAt: "2024-01-02T00:00:00Z" }], "2", false)
+            : page([{ id: "1", name: "first", createdAt: "2024-01-01T00:00:00Z" }], "1", true);
+        });
+
+      const text = await read(manager().export({ filter: [{ published: { equals: true } }], pageSize: 1 }));
+
+      expect(requests.map((request) => request.variables.after)).toEqual([undefined, "1"]);
+      expect(requests[0].query).toMatch(/hydrations\(modelName:\s+"widget"\)/);
+      expect(text.split("\n")).toEqual([
+        JSON.stringify({ id: "1", name: "first", createdAt: "2024-01-01T00:00:00.000Z" }),
+        JSON.stringify({ id: "2", name: "second", createdAt: "2024-01-02T00:00:00.000Z" }),
+        "",
+      ]);
+    });
+
+    test("exports records as CSV with nested fields flattened into columns in the order they were selected", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalFindManyWidget")
+        .reply(
+          200,
+          page(
+            [
+              { name: "first", id: "1", body: { markdown: "# Hello, world" }, tags: ["a", "b"] },
+              { name: 'the "second"', id: "2", body: null, tags: [] },
+            ],
+            "2",
+            false
+          )
+        );
+
+      const text = await read(manager().export({ format: "csv", select: ["id", "name", "body", "tags"] }));
+
+      expect(text.split("\r\n")).toEqual([
+        "id,name,body.markdown,tags",
+        '1,first,"# Hello, world","[""a"",""b""]"',
+        '2,"the ""second""",,[]',
+        "",
+      ]);
+    });
+
+    test("fails CSV exports when a later record has a value for a column that wasn't in the first page", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalFindManyWidget")
+        .times(2)
+        .reply(200, (_uri, body: any) =>
+          body.variables.after ? page([{ id: "2", author: { name: "Jane" } }], "2", false) : page([{ id: "1", author: null }], "1", true)
+        );
+
+      await expect(read(manager().export({ format: "csv", pageSize: 1 }))).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"Record 1 of the CSV export has a value for \`author.name\`, which isn't one of the columns found in the first page of records. Pass the \`columns\` option to choose the columns to export up front."`
+      );
+    });
+
+    test("exports the given CSV columns", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalFindManyWidget")
+        .times(2)
+        .reply(200, (_uri, body: any) =>
+          body.variables.after
+            ? page([{ id: "2", author: { name: "Jane", email: "jane@example.com" } }], "2", false)
+            : page([{ id: "1", author: null }], "1", true)
+        );
+
+      const text = await read(manager().export({ format: "csv", pageSize: 1, columns: ["id", "author.name"] }));
+
+      expect(text).toEqual("id,author.name\r\n1,\r\n2,Jane\r\n");
+    });
+
+    test("exports just the header row of the selected fields to CSV if there are no records", async () => {
+      nock("https://someapp.gadget.app").post("/api/graphql?operation=InternalFindManyWidget").reply(200, page([], "", false));
+
+      const text = await read(manager().export({ format: "csv", select: { id: true, name: true } }));
+
+      expect(text).toEqual("id,name\r\n");
+    });
+  });
+
+  describe("bulk imports", () => {
+    const manager = () =>
+      new InternalModelManager(
+        "user",
+        new GadgetConnection({ endpoint: "https://someapp.gadget.app/api/graphql", authenticationMode: { anonymous: true } })
+      );
+
+    const written = (user: Record<string, any>, __typename = "InternalCreateUserResult") => ({
+      __typename,
+      success: true,
+      errors: null,
+      user: { ...user, createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-01-01T00:00:00.000Z" },
+    });
+
+    const invalid = (message: string) => ({
+      success: false,
+      errors: [
+        {
+          code: "GGT_INVALID_RECORD",
+          message: `user is invalid and can't be saved. ${message}`,
+          validationErrors: [{ apiIdentifier: "email", message }],
+          model: { apiIdentifier: "user" },
+          record: null,
+        },
+      ],
+      user: null,
+    });
+
+    beforeEach(() => {
+      nock.cleanAll();
+    });
+
+    afterEach(() => {
+      expect(nock.pendingMocks()).toEqual([]);
+    });
+
+    test("should build a bulk upsert mutation with one aliased upsert per record", () => {
+      const plan = internalBulkUpsertMutation("user", [{ email: "a@example.com" }, { email: "b@example.com" }], ["email"]);
+
+      expect(plan.query).toContain('hydrations(modelName: "user")');
+      expect(plan.query).toContain("record0: upsertUser(user: $record0, on: $on0)");
+      expect(plan.query).toContain("record1: upsertUser(user: $record1, on: $on1)");
+      expect(plan.query).toContain("... on InternalCreateUserResult");
+      expect(plan.query).toContain("... on InternalUpdateUserResult");
+      expect(plan.query).toContain("fragment InternalErrorsDetails on ExecutionError");
+      expect(plan.variables).toEqual({
+        record0: { email: "a@example.com" },
+        on0: ["email"],
+        record1: { email: "b@example.com" },
+        on1: ["email"],
+      });
+      expectValidGraphQLQuery(plan.query);
+    });
+
+    test("upserts records in chunks and reports which rows were created, updated or failed", async () => {
+      const chunks: Record<string, any>[] = [];
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalBulkUpsertUser")
+        .times(2)
+        .reply(200, (_uri, body: any) => {
+          chunks.push(body.variables);
+          return body.variables.record0.email == "a@example.com"
+            ? {
+                data: {
+                  gadgetMeta: { hydrations: { createdAt: "DateTime" } },
+                  internal: {
+                    record0: written({ id: "1", email: "a@example.com" }),
+                    record1: written({ id: "2", email: "b@example.com" }, "InternalUpdateUserResult"),
+                  },
+                },
+              }
+            : { data: { gadgetMeta: { hydrations: {} }, internal: { record0: invalid("is not a valid email") } } };
+        });
+
+      const report = await manager().bulkUpsert([{ email: "a@example.com" }, { email: "b@example.com" }, { email: "not an email" }], {
+        onConflict: ["email"],
+        chunkSize: 2,
+        concurrency: 2,
+      });
+
+      expect(chunks.map((chunk) => Object.keys(chunk).filter((key) => key.startsWith("record")).length).sort()).toEqual([1, 2]);
+      expect(report.created.map((row) => [row.index, row.record.id])).toEqual([[0, "1"]]);
+      expect(report.created[0].record.createdAt).toBeInstanceOf(Date);
+      expect(report.updated.map((row) => [row.index, row.record.id])).toEqual([[1, "2"]]);
+      expect(report.failed).toHaveLength(1);
+      expect(report.failed[0].index).toEqual(2);
+      expect(report.failed[0].input).toEqual({ email: "not an email" });
+      expect(report.failed[0].error).toBeInstanceOf(InvalidRecordError);
+      expect((report.failed[0].error as InvalidRecordError).validationErrors).toEqual([
+        { apiIdentifier: "email", message: "is not a valid email" },
+      ]);
+      expect(report.errorGroup?.errors).toEqual([report.failed[0].error]);
+      expect(report.errorGroup?.results).toEqual([report.created[0].record, report.updated[0].record]);
+      expect(report.errorGroup?.indexes).toEqual([2]);
+    });
+
+    test("updates records by id, failing every row of a chunk whose request fails", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalBulkUpdateUser")
+        .reply(200, (_uri, body: any) => {
+          expect(body.variables).toEqual({ id0: "1", record0: { email: "new@example.com" } });
+          return {
+            data: {
+              gadgetMeta: { hydrations: {} },
+              internal: { record0: written({ id: "1", email: "new@example.com" }, "InternalUpdateUserResult") },
+            },
+          };
+        })
+        .post("/api/graphql?operation=InternalBulkUpdateUser")
+        .reply(500, "Internal Server Error");
+
+      const report = await manager().bulkUpdate(
+        [
+          { id: "1", email: "new@example.com" },
+          { id: "2", email: "other@example.com" },
+        ],
+        { chunkSize: 1, concurrency: 1 }
+      );
+
+      expect(report.created).toEqual([]);
+      expect(report.updated.map((row) => row.record.id)).toEqual(["1"]);
+      expect(report.failed.map((row) => row.index)).toEqual([1]);
+      expect(report.errorGroup?.message).toEqual(report.failed[0].error.message);
+    });
+
+    test("should build an upsert record mutation", () => {
+      const mutation = internalUpsertMutation("user");
+
+      expect(mutation).toContain("mutation InternalUpsertUser($on: [String!], $record: InternalUserInput)");
+      expect(mutation).toContain("upsertUser(on: $on, user: $record)");
+      expect(mutation).toContain("... on InternalCreateUserResult");
+      expect(mutation).toContain("... on InternalUpdateUserResult");
+      expectValidGraphQLQuery(mutation);
+    });
+
+    test("upserts a single record, reporting whether it was created or updated", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalUpsertUser", (body) => body.variables.on[0] == "email")
+        .reply(200, { data: { gadgetMeta: { hydrations: {} }, internal: { upsertUser: written({ id: "1", email: "a@example.com" }) } } })
+        .post("/api/graphql?operation=InternalUpsertUser")
+        .reply(200, {
+          data: {
+            gadgetMeta: { hydrations: {} },
+            internal: { upsertUser: written({ id: "1", email: "a@example.com" }, "InternalUpdateUserResult") },
+          },
+        });
+
+      const created = await manager().upsert({ email: "a@example.com" }, { on: ["email"] });
+      const updated = await manager().upsert({ id: "1", email: "a@example.com" });
+
+      expect(created.record.getField("id")).toEqual("1");
+      expect(created.outcome).toEqual("created");
+      expect(updated.outcome).toEqual("updated");
+    });
+
+    test("throws if a record to update has no id", async () => {
+      await expect(manager().bulkUpdate([{ email: "new@example.com" }])).rejects.toThrow("Can't update a record without an ID passed");
+    });
+  });
+
+  describe("count and aggregate", () => {
+    const manager = () =>
+      new InternalModelManager(
+        "widget",
+        new GadgetConnection({ endpoint: "https://someapp.gadget.app/api/graphql", authenticationMode: { anonymous: true } })
+      );
+
+    beforeEach(() => {
+      nock.cleanAll();
+    });
+
+    afterEach(() => {
+      expect(nock.pendingMocks()).toEqual([]);
+    });
+
+    test("should build a count query that filters and searches the internal list field", () => {
+      const plan = internalCountQuery("widget", { search: "foo", filter: { name: { equals: "bar" } } });
+
+      expect(plan.query).toContain("listWidget(search: $search, filter: $filter)");
+      expect(plan.variables).toEqual({ search: "foo", filter: { name: { equals: "bar" } } });
+      expectValidGraphQLQuery(plan.query);
+    });
+
+    test("counts the records matching a filter", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalCountWidget", (body) => body.variables.filter.name.equals == "bar")
+        .reply(200, { data: { internal: { listWidget: { count: 3 } } } });
+
+      expect(await manager().count({ filter: { name: { equals: "bar" } } })).toEqual(3);
+    });
+
+    test("aggregates the records matching a filter into groups", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=InternalAggregateWidget", (body) => /avg\(fields:\s*\[\s*"price"\s*\]\)/.test(body.query))
+        .reply(200, { data: { internal: { listWidget: { aggregate: [{ group: {}, count: 3, avg: { price: 2.5 } }] } } } });
+
+      expect(await manager().aggregate({ avg: ["price"] })).toEqual([
+        { group: {}, count: 3, sum: {}, avg: { price: 2.5 }, min: {}, max: {} },
+      ]);
+    });
+  });
 });
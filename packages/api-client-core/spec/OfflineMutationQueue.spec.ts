@@ -0,0 +1,264 @@
+import gql from "gql-tag";
+import nock from "nock";
+import type { OfflineMutationQueueOptions } from "../src/index.js";
+import { GadgetConnection, InMemoryStorage, OfflineMutationQueue } from "../src/index.js";
+
+nock.disableNetConnect();
+
+const flipMutation = gql`
+  mutation FlipWidget($id: GadgetID!) {
+    flipWidget(id: $id) {
+      success
+      errors {
+        message
+      }
+    }
+  }
+`;
+
+const metaQuery = gql`
+  {
+    meta {
+      appName
+    }
+  }
+`;
+
+describe("OfflineMutationQueue", () => {
+  let queue: OfflineMutationQueue;
+
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    queue?.dispose();
+    expect(nock.pendingMocks()).toEqual([]);
+  });
+
+  const connectionWithQueue = (options: OfflineMutationQueueOptions = {}) => {
+    queue = new OfflineMutationQueue(options);
+    return new GadgetConnection({
+      endpoint: "https://someapp.gadget.app/api/graphql",
+      authenticationMode: { anonymous: true },
+      exchanges: { beforeAsync: [queue.exchange] },
+    });
+  };
+
+  const flip = (connection: GadgetConnection, id: string, context = {}) =>
+    connection.currentClient.mutation(flipMutation, { id }, context).toPromise();
+
+  const flushed = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  test("queues and persists mutations that fail because the Gadget API can't be reached, still reporting the error to the caller", async () => {
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=FlipWidget").replyWithError("getaddrinfo ENOTFOUND");
+
+    const storage = new InMemoryStorage();
+    const connection = connectionWithQueue({ storage });
+    const queued = jest.fn();
+    queue.on("queued", queued);
+
+    const result = await flip(connection, "1");
+    await flushed();
+
+    expect(result.error?.networkError).toBeTruthy();
+    expect(queue.state.pending).toHaveLength(1);
+    expect(queue.state.pending[0]).toMatchObject({ operationName: "FlipWidget", variables: { id: "1" } });
+    expect(queue.state.pending[0].query).toContain("mutation FlipWidget");
+    expect(queued).toHaveBeenCalledWith(queue.state.pending[0]);
+    expect(JSON.parse(storage.getItem("gadget-offline-mutations")!)).toEqual(queue.state.pending);
+  });
+
+  test("doesn't queue queries, mutations the server responded to, or mutations that opt out", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=meta")
+      .replyWithError("getaddrinfo ENOTFOUND")
+      .post("/api/graphql?operation=FlipWidget")
+      .reply(500, "Internal Server Error")
+      .post("/api/graphql?operation=FlipWidget")
+      .replyWithError("getaddrinfo ENOTFOUND");
+
+    const connection = connectionWithQueue();
+    await connection.currentClient.query(metaQuery, {}).toPromise();
+    await flip(connection, "1");
+    await flip(connection, "2", { offlineQueue: false });
+    await flushed();
+
+    expect(queue.state.pending).toEqual([]);
+  });
+
+  test("doesn't queue authentication actions, whose variables hold credentials", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=SignIn")
+      .replyWithError("getaddrinfo ENOTFOUND")
+      .post("/api/graphql?operation=ChangePassword")
+      .replyWithError("getaddrinfo ENOTFOUND");
+
+    const storage = new InMemoryStorage();
+    const connection = connectionWithQueue({ storage });
+    await connection.currentClient
+      .mutation(
+        gql`
+          mutation SignIn($email: String, $password: String) {
+            signInUser(email: $email, password: $password) {
+              success
+            }
+          }
+        `,
+        { email: "test@test.com", password: "secret" }
+      )
+      .toPromise();
+    await connection.currentClient
+      .mutation(
+        gql`
+          mutation ChangePassword($id: GadgetID!, $newPassword: String) {
+            accounts {
+              changePasswordUser(id: $id, newPassword: $newPassword) {
+                success
+              }
+            }
+          }
+        `,
+        { id: "1", newPassword: "secret" }
+      )
+      .toPromise();
+    await flushed();
+
+    expect(queue.state.pending).toEqual([]);
+    expect(storage.getItem("gadget-offline-mutations")).toBeNull();
+  });
+
+  test("queues the mutations prepared by the serialize option, and skips those it returns null for", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=FlipWidget")
+      .replyWithError("getaddrinfo ENOTFOUND")
+      .post("/api/graphql?operation=FlipWidget")
+      .replyWithError("getaddrinfo ENOTFOUND");
+
+    const storage = new InMemoryStorage();
+    const connection = connectionWithQueue({
+      storage,
+      serialize: (mutation) =>
+        mutation.variables.id == "secret" ? null : { ...mutation, variables: { ...mutation.variables, token: undefined } },
+    });
+    await connection.currentClient.mutation(flipMutation, { id: "1", token: "abc" }).toPromise();
+    await flip(connection, "secret");
+    await flushed();
+
+    expect(queue.state.pending).toHaveLength(1);
+    expect(queue.state.pending[0].variables).toEqual({ id: "1", token: undefined });
+    expect(JSON.parse(storage.getItem("gadget-offline-mutations")!)[0].variables).toEqual({ id: "1" });
+  });
+
+  test("replays queued mutations in order, removing them from the queue as they succeed", async () => {
+    const connection = connectionWithQueue();
+
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=FlipWidget").times(2).replyWithError("getaddrinfo ENOTFOUND");
+    await flip(connection, "1");
+    await flip(connection, "2");
+    await flushed();
+    expect(queue.state.pending.map((mutation) => mutation.variables.id)).toEqual(["1", "2"]);
+
+    const replayedIds: string[] = [];
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=FlipWidget")
+      .times(2)
+      .reply(200, (_uri, body: any) => {
+        replayedIds.push(body.variables.id);
+        return { data: { flipWidget: { success: true, errors: null } } };
+      });
+
+    const replayed = jest.fn();
+    queue.on("replayed", replayed);
+    await queue.replay();
+
+    expect(replayedIds).toEqual(["1", "2"]);
+    expect(replayed).toHaveBeenCalledTimes(2);
+    expect(queue.state).toEqual({ pending: [], replaying: false });
+  });
+
+  test("keeps replaying when a listener throws", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=FlipWidget")
+      .replyWithError("getaddrinfo ENOTFOUND")
+      .post("/api/graphql?operation=FlipWidget")
+      .replyWithError("getaddrinfo ENOTFOUND")
+      .post("/api/graphql?operation=FlipWidget")
+      .reply(200, { data: { flipWidget: { success: true, errors: null } } })
+      .post("/api/graphql?operation=FlipWidget")
+      .reply(200, { data: { flipWidget: { success: true, errors: null } } });
+
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const connection = connectionWithQueue({ replayOnReconnect: false });
+    await flip(connection, "1");
+    await flip(connection, "2");
+    await flushed();
+
+    queue.on("replayed", () => {
+      throw new Error("listener failed");
+    });
+    await queue.replay();
+
+    expect(queue.state.pending).toEqual([]);
+    expect(warn).toHaveBeenCalledWith("Encountered an error in an offline mutation queue replayed listener. The error:", expect.any(Error));
+    warn.mockRestore();
+  });
+
+  test("stops replaying if the Gadget API still can't be reached, keeping the rest of the queue", async () => {
+    const connection = connectionWithQueue();
+
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=FlipWidget").times(2).replyWithError("getaddrinfo ENOTFOUND");
+    await flip(connection, "1");
+    await flip(connection, "2");
+    await flushed();
+
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=FlipWidget").replyWithError("getaddrinfo ENOTFOUND");
+    await queue.replay();
+
+    expect(queue.state.pending.map((mutation) => mutation.variables.id)).toEqual(["1", "2"]);
+  });
+
+  test("reports mutations the Gadget API rejects when replayed as conflicts and drops them", async () => {
+    const connection = connectionWithQueue();
+
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=FlipWidget").replyWithError("getaddrinfo ENOTFOUND");
+    await flip(connection, "1");
+    await flushed();
+
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=FlipWidget")
+      .reply(200, { data: { flipWidget: { success: false, errors: [{ message: "Widget was already flipped" }] } } });
+
+    const conflict = jest.fn();
+    queue.on("conflict", conflict);
+    await queue.replay();
+
+    expect(conflict).toHaveBeenCalledTimes(1);
+    expect(conflict.mock.calls[0][0].mutation.variables).toEqual({ id: "1" });
+    expect(conflict.mock.calls[0][0].result.data).toEqual({
+      flipWidget: { success: false, errors: [{ message: "Widget was already flipped" }] },
+    });
+    expect(queue.state.pending).toEqual([]);
+  });
+
+  test("replays mutations persisted by a previous session once it is connected to a client", async () => {
+    const storage = new InMemoryStorage();
+    storage.setItem(
+      "gadget-offline-mutations",
+      JSON.stringify([
+        { id: "a", query: "mutation FlipWidget($id: GadgetID!) { flipWidget(id: $id) { success } }", variables: { id: "1" }, queuedAt: 0 },
+      ])
+    );
+
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=FlipWidget", (body) => body.variables.id == "1")
+      .reply(200, { data: { flipWidget: { success: true } } });
+
+    connectionWithQueue({ storage });
+    await new Promise((resolve) => queue.on("replayed", resolve));
+    await flushed();
+
+    expect(queue.state.pending).toEqual([]);
+    expect(JSON.parse(storage.getItem("gadget-offline-mutations")!)).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+import gql from "gql-tag";
+import nock from "nock";
+import { GadgetConnection } from "../src/index.js";
+
+nock.disableNetConnect();
+
+const widgetQuery = gql`
+  query GetWidget($id: GadgetID!) {
+    widget(id: $id) {
+      id
+    }
+  }
+`;
+
+const metaQuery = gql`
+  query GetMeta {
+    meta {
+      appName
+    }
+  }
+`;
+
+describe("batchExchange", () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    expect(nock.pendingMocks()).toEqual([]);
+  });
+
+  const connectionWithBatching = (batching: GadgetConnection["options"]["batching"] = true) =>
+    new GadgetConnection({
+      endpoint: "https://someapp.gadget.app/api/graphql",
+      authenticationMode: { anonymous: true },
+      requestPolicy: "network-only",
+      batching,
+    });
+
+  test("sends queries issued in the same tick together in one request and splits the results back out", async () => {
+    let body: any;
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=GetWidget%2CGetMeta", (requestBody) => {
+        body = requestBody;
+        return true;
+      })
+      .reply(200, [{ data: { widget: { id: "1" } } }, { data: { meta: { appName: "some app" } } }]);
+
+    const connection = connectionWithBatching();
+    const [widget, meta] = await Promise.all([
+      connection.currentClient.query(widgetQuery, { id: "1" }).toPromise(),
+      connection.currentClient.query(metaQuery, {}).toPromise(),
+    ]);
+
+    expect(body).toHaveLength(2);
+    expect(body[0].operationName).toEqual("GetWidget");
+    expect(body[0].variables).toEqual({ id: "1" });
+    expect(body[1].operationName).toEqual("GetMeta");
+    expect(widget.data).toEqual({ widget: { id: "1" } });
+    expect(meta.data).toEqual({ meta: { appName: "some app" } });
+  });
+
+  test("sends a new batch once the current one reaches the maximum size", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=GetWidget%2CGetWidget")
+      .reply(200, [{ data: { widget: { id: "1" } } }, { data: { widget: { id: "2" } } }])
+      .post("/api/graphql?operation=GetWidget")
+      .reply(200, [{ data: { widget: { id: "3" } } }]);
+
+    const connection = connectionWithBatching({ maxBatchSize: 2 });
+    const results = await Promise.all(["1", "2", "3"].map((id) => connection.currentClient.query(widgetQuery, { id }).toPromise()));
+
+    expect(results.map((result) => result.data.widget.id)).toEqual(["1", "2", "3"]);
+  });
+
+  test("doesn't batch mutations or queries that opt out", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=GetMeta", (body) => !Array.isArray(body))
+      .reply(200, { data: { meta: { appName: "some app" } } })
+      .post("/api/graphql?operation=FlipWidgets", (body) => !Array.isArray(body))
+      .reply(200, { data: { flipWidgets: { success: true } } });
+
+    const connection = connectionWithBatching();
+    const [meta, flip] = await Promise.all([
+      connection.currentClient.query(metaQuery, {}, { batch: false }).toPromise(),
+      connection.currentClient.mutation(`mutation FlipWidgets { flipWidgets { success } }`, {}).toPromise(),
+    ]);
+
+    expect(meta.data).toEqual({ meta: { appName: "some app" } });
+    expect(flip.data).toEqual({ flipWidgets: { success: true } });
+  });
+
+  test("keeps the persisted query hash of each query it batches", async () => {
+    let body: any;
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=GetWidget%2CGetMeta", (requestBody) => {
+        body = requestBody;
+        return true;
+      })
+      .reply(200, [{ data: { widget: { id: "1" } } }, { data: { meta: { appName: "some app" } } }]);
+
+    const connection = new GadgetConnection({
+      endpoint: "https://someapp.gadget.app/api/graphql",
+      authenticationMode: { anonymous: true },
+      requestPolicy: "network-only",
+      batching: true,
+      persistedQueries: { preferGetMethod: false },
+    });
+    const [widget, meta] = await Promise.all([
+      connection.currentClient.query(widgetQuery, { id: "1" }).toPromise(),
+      connection.currentClient.query(metaQuery, {}).toPromise(),
+    ]);
+
+    expect(body).toHaveLength(2);
+    for (const entry of body) {
+      expect(entry.query).toBeUndefined();
+      expect(entry.extensions.persistedQuery).toEqual({ version: 1, sha256Hash: expect.any(String) });
+    }
+    expect(widget.data).toEqual({ widget: { id: "1" } });
+    expect(meta.data).toEqual({ meta: { appName: "some app" } });
+  });
+
+  test("doesn't batch persisted queries that can be sent with GET", async () => {
+    nock("https://someapp.gadget.app")
+      .get((uri) => uri.startsWith("/api/graphql?operation=GetWidget&") && uri.includes("persistedQuery"))
+      .reply(200, { data: { widget: { id: "1" } } })
+      .get((uri) => uri.startsWith("/api/graphql?operation=GetMeta&") && uri.includes("persistedQuery"))
+      .reply(200, { data: { meta: { appName: "some app" } } });
+
+    const connection = new GadgetConnection({
+      endpoint: "https://someapp.gadget.app/api/graphql",
+      authenticationMode: { anonymous: true },
+      requestPolicy: "network-only",
+      batching: true,
+      persistedQueries: true,
+    });
+    const [widget, meta] = await Promise.all([
+      connection.currentClient.query(widgetQuery, { id: "1" }).toPromise(),
+      connection.currentClient.query(metaQuery, {}).toPromise(),
+    ]);
+
+    expect(widget.data).toEqual({ widget: { id: "1" } });
+    expect(meta.data).toEqual({ meta: { appName: "some app" } });
+  });
+
+  test("reports an error to every query in the batch when the request fails", async () => {
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=GetWidget%2CGetMeta").reply(503, { message: "Service Unavailable" });
+
+    const connection = connectionWithBatching();
+    const results = await Promise.all([
+      connection.currentClient.query(widgetQuery, { id: "1" }).toPromise(),
+      connection.currentClient.query(metaQuery, {}).toPromise(),
+    ]);
+
+    for (const result of results) {
+      expect(result.error).toBeTruthy();
+      expect(result.error?.response.status).toEqual(503);
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import gql from "gql-tag";
+import nock from "nock";
+import type { OpenTelemetrySpan, OpenTelemetryTracer, OperationEndEvent, OperationStartEvent } from "../src/index.js";
+import { GadgetConnection } from "../src/index.js";
+
+nock.disableNetConnect();
+
+const widgetQuery = gql`
+  query GetWidget($id: GadgetID!) {
+    widget(id: $id) {
+      id
+    }
+  }
+`;
+
+const flipMutation = gql`
+  mutation FlipWidget($id: GadgetID!) {
+    flipWidget(id: $id) {
+      success
+      errors {
+        code
+        message
+      }
+    }
+  }
+`;
+
+interface RecordedSpan {
+  name: string;
+  options: any;
+  attributes: Record<string, any>;
+  status?: { code: number; message?: string };
+  exceptions: any[];
+  ended: boolean;
+}
+
+/** A tracer that records the spans it creates, in place of a real OpenTelemetry tracer */
+const recordingTracer = () => {
+  const spans: RecordedSpan[] = [];
+  const tracer: OpenTelemetryTracer = {
+    startSpan(name, options) {
+      const recorded: RecordedSpan = { name, options, attributes: {}, exceptions: [], ended: false };
+      spans.push(recorded);
+      const span: OpenTelemetrySpan = {
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        setStatus: (status) => (recorded.status = status),
+        recordException: (exception) => recorded.exceptions.push(exception),
+        spanContext: () => ({ traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7", traceFlags: 1 }),
+        end: () => (recorded.ended = true),
+      };
+      return span;
+    },
+  };
+  return { tracer, spans };
+};
+
+describe("operation instrumentation", () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    expect(nock.pendingMocks()).toEqual([]);
+  });
+
+  const newConnection = (options: Partial<GadgetConnection["options"]> = {}) =>
+    new GadgetConnection({ endpoint: "https://someapp.gadget.app/api/graphql", authenticationMode: { anonymous: true }, ...options });
+
+  test("reports when operations start and end, with their name, duration and result size", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=GetWidget")
+      .reply(200, { data: { widget: { id: "1" } } });
+
+    const connection = newConnection();
+    const starts: OperationStartEvent[] = [];
+    const ends: OperationEndEvent[] = [];
+    connection.onOperationStart((event) => starts.push(event));
+    connection.onOperationEnd((event) => ends.push(event));
+
+    await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+
+    expect(starts).toHaveLength(1);
+    expect(starts[0]).toMatchObject({ operationName: "GetWidget", kind: "query", variables: { id: "1" } });
+    expect(ends).toHaveLength(1);
+    expect(ends[0]).toMatchObject({
+      operationName: "GetWidget",
+      kind: "query",
+      resultSize: JSON.stringify({ widget: { id: "1" } }).length,
+    });
+    expect(ends[0].startedAt).toEqual(starts[0].startedAt);
+    expect(ends[0].durationMs).toBeGreaterThanOrEqual(0);
+    expect(ends[0].errorCode).toBeUndefined();
+  });
+
+  test("reports the code of the error an operation failed with", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=GetWidget")
+      .reply(200, { errors: [{ message: "Too many requests", extensions: { code: "GGT_TOO_MANY_REQUESTS" } }] })
+      .post("/api/graphql?operation=FlipWidget")
+      .reply(200, { data: { flipWidget: { success: false, errors: [{ code: "GGT_INVALID_RECORD", message: "Widget is invalid" }] } } });
+
+    const connection = newConnection({ requestPolicy: "network-only" });
+    const ends: OperationEndEvent[] = [];
+    connection.onOperationEnd((event) => ends.push(event));
+
+    await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+    await connection.currentClient.mutation(flipMutation, { id: "1" }).toPromise();
+
+    expect(ends.map((event) => [event.operationName, event.errorCode])).toEqual([
+      ["GetWidget", "GGT_TOO_MANY_REQUESTS"],
+      ["FlipWidget", "GGT_INVALID_RECORD"],
+    ]);
+    expect(ends[0].error?.graphQLErrors[0].message).toEqual("Too many requests");
+  });
+
+  test("stops notifying listeners once they unregister, and keeps running operations if a listener throws", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=GetWidget")
+      .times(2)
+      .reply(200, { data: { widget: { id: "1" } } });
+
+    const connection = newConnection({ requestPolicy: "network-only" });
+    const listener = jest.fn();
+    const unregister = connection.onOperationEnd(listener);
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    connection.onOperationStart(() => {
+      throw new Error("broken listener");
+    });
+
+    const first = await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+    unregister();
+    await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+
+    expect(first.data).toEqual({ widget: { id: "1" } });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  describe("OpenTelemetry tracing", () => {
+    test("creates a span for each request to the Gadget API and sends its traceparent header", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=GetWidget")
+        .matchHeader("traceparent", "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01")
+        .reply(200, { data: { widget: { id: "1" } } });
+
+      const { tracer, spans } = recordingTracer();
+      const connection = newConnection({ tracer });
+      await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0]).toMatchObject({
+        name: "Gadget GetWidget",
+        options: {
+          kind: 2,
+          attributes: {
+            "http.request.method": "POST",
+            "url.full": "https://someapp.gadget.app/api/graphql?operation=GetWidget",
+            "graphql.operation.name": "GetWidget",
+          },
+        },
+        attributes: { "http.response.status_code": 200 },
+        ended: true,
+      });
+      expect(spans[0].status).toBeUndefined();
+    });
+
+    test("marks spans for failed requests as errors", async () => {
+      nock("https://someapp.gadget.app")
+        .get("/foo")
+        .reply(500, "Internal Server Error")
+        .get("/bar")
+        .replyWithError("getaddrinfo ENOTFOUND");
+
+      const { tracer, spans } = recordingTracer();
+      const connection = newConnection({ tracer });
+      await connection.fetch("/foo");
+      await expect(connection.fetch("/bar")).rejects.toThrow();
+
+      expect(spans.map((span) => span.name)).toEqual(["Gadget GET", "Gadget GET"]);
+      expect(spans[0]).toMatchObject({ attributes: { "http.response.status_code": 500 }, status: { code: 2 }, ended: true });
+      expect(spans[1].status?.code).toEqual(2);
+      expect(spans[1].exceptions).toHaveLength(1);
+      expect(spans[1].ended).toBe(true);
+    });
+  });
+});
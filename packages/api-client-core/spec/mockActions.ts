@@ -4,7 +4,13 @@ export const MockWidgetCreateAction = {
   type: "action",
   isBulk: false,
   operationName: "createWidget",
+  namespace: null,
   modelApiIdentifier: "widget",
+  modelSelectionField: "widget",
+  defaultSelection: {
+    id: true,
+    name: true,
+  },
   variables: {
     widget: {
       type: "CreateWidgetInput",
@@ -14,6 +20,30 @@ export const MockWidgetCreateAction = {
   hasReturnType: false,
 } as unknown as ActionFunction<any, any, any, any, any>;
 
+export const MockWidgetUpdateAction = {
+  type: "action",
+  isBulk: false,
+  operationName: "updateWidget",
+  namespace: null,
+  modelApiIdentifier: "widget",
+  modelSelectionField: "widget",
+  defaultSelection: {
+    id: true,
+    name: true,
+  },
+  variables: {
+    id: {
+      type: "GadgetID",
+      required: true,
+    },
+    widget: {
+      type: "UpdateWidgetInput",
+      required: false,
+    },
+  },
+  hasReturnType: false,
+} as unknown as ActionFunction<any, any, any, any, any>;
+
 export const MockBulkUpdateWidgetAction = {
   type: "action",
   operationName: "bulkUpdateWidgets",
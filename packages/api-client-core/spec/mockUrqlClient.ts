@@ -6,7 +6,7 @@ import { find, findLast } from "lodash";
 import { act } from "react-dom/test-utils";
 import type { Sink, Source, Subject } from "wonka";
 import { filter, makeSubject, pipe, subscribe, take, toPromise } from "wonka";
-import { $gadgetConnection } from "../src/GadgetConnection.js";
+import { $gadgetConnection } from "../src/symbols.js";
 
 /** Patches a `toPromise` method onto the `Source` passed to it.
  * @param source$ - the Wonka {@link Source} to patch.
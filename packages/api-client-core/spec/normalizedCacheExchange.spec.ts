@@ -0,0 +1,371 @@
+import type { OperationResult } from "@urql/core";
+import gql from "gql-tag";
+import nock from "nock";
+import { GadgetConnection, InternalModelManager, actionRunner, deleteActionContext, optimisticActionContext } from "../src/index.js";
+
+nock.disableNetConnect();
+
+const widgetsQuery = gql`
+  query Widgets {
+    widgets {
+      edges {
+        node {
+          id
+          name
+        }
+      }
+    }
+  }
+`;
+
+const widgetQuery = gql`
+  query Widget($id: GadgetID!) {
+    widget(id: $id) {
+      id
+      name
+    }
+  }
+`;
+
+const updateMutation = gql`
+  mutation UpdateWidget($id: GadgetID!, $name: String!) {
+    updateWidget(id: $id, widget: { name: $name }) {
+      success
+      widget {
+        id
+        name
+      }
+    }
+  }
+`;
+
+const createMutation = gql`
+  mutation CreateWidget($name: String!) {
+    createWidget(widget: { name: $name }) {
+      success
+      widget {
+        id
+        name
+      }
+    }
+  }
+`;
+
+const internalBulkDeleteMutation = gql`
+  mutation InternalBulkDeleteWidgets($ids: [GadgetID!]!) {
+    internal {
+      bulkDeleteWidgets(ids: $ids) {
+        success
+      }
+    }
+  }
+`;
+
+const widget = (id: string, name: string) => ({ __typename: "Widget", id, name });
+
+const widgetsResponse = (...widgets: ReturnType<typeof widget>[]) => ({
+  data: {
+    widgets: {
+      __typename: "WidgetConnection",
+      edges: widgets.map((node) => ({ __typename: "WidgetEdge", node })),
+    },
+  },
+});
+
+const namesOf = (result: OperationResult | undefined) => result?.data.widgets.edges.map((edge: any) => edge.node.name);
+
+describe("normalizedCacheExchange", () => {
+  let unsubscribe: (() => void) | undefined;
+
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    unsubscribe?.();
+    unsubscribe = undefined;
+    expect(nock.pendingMocks()).toEqual([]);
+  });
+
+  const cachedConnection = (normalizedCache: GadgetConnection["options"]["normalizedCache"] = true) =>
+    new GadgetConnection({
+      endpoint: "https://someapp.gadget.app/api/graphql",
+      authenticationMode: { anonymous: true },
+      requestPolicy: "cache-first",
+      normalizedCache,
+    });
+
+  /** Subscribe to a query, collecting every result delivered for it */
+  const watch = (connection: GadgetConnection, query: typeof widgetsQuery, variables: Record<string, any> = {}) => {
+    const results: OperationResult[] = [];
+    unsubscribe = connection.currentClient.query(query, variables).subscribe((result) => results.push(result)).unsubscribe;
+    return results;
+  };
+
+  const settled = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+  /** Wait for a watched query's first result, which comes from the server and may take longer than other updates to arrive */
+  const loaded = async (results: OperationResult[]) => {
+    while (results.length == 0) await settled();
+  };
+
+  test("answers queries for records it has already cached without fetching them again", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=Widget")
+      .reply(200, { data: { widget: widget("1", "first") } });
+
+    const connection = cachedConnection();
+    const first = await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+    const second = await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+
+    expect(first.data).toEqual({ widget: widget("1", "first") });
+    expect(second.data).toEqual({ widget: widget("1", "first") });
+  });
+
+  test("updates cached queries in place when a mutation returns one of their records", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=Widgets")
+      .reply(200, widgetsResponse(widget("1", "first"), widget("2", "second")))
+      .post("/api/graphql?operation=UpdateWidget")
+      .reply(200, { data: { updateWidget: { __typename: "UpdateWidgetResult", success: true, widget: widget("2", "updated") } } });
+
+    const connection = cachedConnection();
+    const results = watch(connection, widgetsQuery);
+    await loaded(results);
+    expect(namesOf(results.at(-1))).toEqual(["first", "second"]);
+
+    await connection.currentClient.mutation(updateMutation, { id: "2", name: "updated" }).toPromise();
+    await settled();
+
+    expect(namesOf(results.at(-1))).toEqual(["first", "updated"]);
+  });
+
+  test("removes records deleted by a delete action from cached lists", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=Widgets")
+      .reply(200, widgetsResponse(widget("1", "first"), widget("2", "second")))
+      .post("/api/graphql?operation=deleteWidget")
+      .reply(200, {
+        data: {
+          deleteWidget: { __typename: "DeleteWidgetResult", success: true, errors: null },
+          gadgetMeta: { __typename: "GadgetApplicationMeta", hydrations: {} },
+        },
+      });
+
+    const connection = cachedConnection();
+    const results = watch(connection, widgetsQuery);
+    await loaded(results);
+
+    await actionRunner({ connection }, "deleteWidget", null, "widget", "widget", false, {
+      id: { value: "1", type: "GadgetID", required: true },
+    });
+    await settled();
+
+    expect(namesOf(results.at(-1))).toEqual(["second"]);
+  });
+
+  test("removes records bulk deleted within a namespace from cached lists", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=Widgets")
+      .reply(200, widgetsResponse(widget("1", "first"), widget("2", "second"), widget("3", "third")))
+      .post("/api/graphql?operation=InternalBulkDeleteWidgets")
+      .reply(200, { data: { internal: { __typename: "InternalMutations", bulkDeleteWidgets: { success: true } } } });
+
+    const connection = cachedConnection();
+    const results = watch(connection, widgetsQuery);
+    await loaded(results);
+
+    await connection.currentClient
+      .mutation(
+        internalBulkDeleteMutation,
+        { ids: ["1", "3"] },
+        deleteActionContext(
+          { operationName: "bulkDeleteWidgets", namespace: "internal", modelApiIdentifier: "widget", defaultSelection: null, isBulk: true },
+          { ids: ["1", "3"] }
+        )
+      )
+      .toPromise();
+    await settled();
+
+    expect(namesOf(results.at(-1))).toEqual(["second"]);
+  });
+
+  test("removes records deleted through the internal api from cached lists", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=Widgets")
+      .reply(200, widgetsResponse(widget("1", "first"), widget("2", "second")))
+      .post("/api/graphql?operation=InternalDeleteWidget")
+      .reply(200, {
+        data: {
+          internal: {
+            __typename: "InternalMutations",
+            deleteWidget: { __typename: "InternalDeleteWidgetResult", success: true, errors: null },
+          },
+          gadgetMeta: { __typename: "GadgetApplicationMeta", hydrations: {} },
+        },
+      });
+
+    const connection = cachedConnection();
+    const results = watch(connection, widgetsQuery);
+    await loaded(results);
+
+    await new InternalModelManager("widget", connection, { pluralApiIdentifier: "widgets" }).delete("2");
+    await settled();
+
+    expect(namesOf(results.at(-1))).toEqual(["first"]);
+  });
+
+  test("keeps records returned by custom actions named like deletes in cached lists", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=Widgets")
+      .reply(200, widgetsResponse(widget("1", "first"), widget("2", "second")))
+      .post("/api/graphql?operation=deleteTagsWidget")
+      .reply(200, {
+        data: {
+          deleteTagsWidget: { __typename: "DeleteTagsWidgetResult", success: true, errors: null, widget: widget("1", "untagged") },
+          gadgetMeta: { __typename: "GadgetApplicationMeta", hydrations: {} },
+        },
+      });
+
+    const connection = cachedConnection();
+    const results = watch(connection, widgetsQuery);
+    await loaded(results);
+
+    await actionRunner({ connection }, "deleteTagsWidget", { __typename: true, id: true, name: true }, "widget", "widget", false, {
+      id: { value: "1", type: "GadgetID", required: true },
+    });
+    await settled();
+
+    expect(namesOf(results.at(-1))).toEqual(["untagged", "second"]);
+  });
+
+  test("only caches objects of the app's models as records once the generated client has given the connection its model metadata", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=Widgets")
+      .reply(200, widgetsResponse(widget("1", "first"), widget("2", "second")))
+      .post("/api/graphql?operation=UpdateWidget")
+      .reply(200, { data: { updateWidget: { __typename: "UpdateWidgetResult", success: true, widget: widget("2", "updated") } } });
+
+    const connection = cachedConnection();
+    connection.modelRelationships = { gizmo: { widget: { type: "BelongsTo", model: "gizmo" } } };
+    const results = watch(connection, widgetsQuery);
+    await loaded(results);
+
+    await connection.currentClient.mutation(updateMutation, { id: "2", name: "updated" }).toPromise();
+    await settled();
+
+    expect(namesOf(results.at(-1))).toEqual(["first", "second"]);
+  });
+
+  test("fetches cached lists again when a mutation returns a record of their model it hasn't seen before", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=Widgets")
+      .reply(200, widgetsResponse(widget("1", "first")))
+      .post("/api/graphql?operation=CreateWidget")
+      .reply(200, { data: { createWidget: { __typename: "CreateWidgetResult", success: true, widget: widget("2", "new") } } })
+      .post("/api/graphql?operation=Widgets")
+      .reply(200, widgetsResponse(widget("1", "first"), widget("2", "new")));
+
+    const connection = cachedConnection();
+    const results = watch(connection, widgetsQuery);
+    await loaded(results);
+
+    await connection.currentClient.mutation(createMutation, { name: "new" }).toPromise();
+    await settled();
+
+    expect(namesOf(results.at(-1))).toEqual(["first", "new"]);
+  });
+
+  describe("optimistic updates", () => {
+    test("shows records a mutation is expected to return in cached queries until the mutation's result arrives", async () => {
+      let namesDuringMutation: string[] | undefined;
+      let results: OperationResult[] = [];
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=Widgets")
+        .reply(200, widgetsResponse(widget("1", "first"), widget("2", "second")))
+        .post("/api/graphql?operation=UpdateWidget")
+        .reply(200, () => {
+          namesDuringMutation = namesOf(results.at(-1));
+          return { data: { updateWidget: { __typename: "UpdateWidgetResult", success: true, widget: widget("2", "saved") } } };
+        });
+
+      const connection = cachedConnection();
+      results = watch(connection, widgetsQuery);
+      await loaded(results);
+
+      await connection.currentClient
+        .mutation(updateMutation, { id: "2", name: "updated" }, optimisticActionContext("widget", { id: "2", name: "updated" }))
+        .toPromise();
+      await settled();
+
+      expect(namesDuringMutation).toEqual(["first", "updated"]);
+      expect(namesOf(results.at(-1))).toEqual(["first", "saved"]);
+    });
+
+    test("rolls back records a mutation was expected to return if the mutation fails", async () => {
+      let namesDuringMutation: string[] | undefined;
+      let results: OperationResult[] = [];
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=Widgets")
+        .reply(200, widgetsResponse(widget("1", "first"), widget("2", "second")))
+        .post("/api/graphql?operation=UpdateWidget")
+        .reply(200, () => {
+          namesDuringMutation = namesOf(results.at(-1));
+          return { data: { updateWidget: { __typename: "UpdateWidgetResult", success: false, widget: null } } };
+        });
+
+      const connection = cachedConnection();
+      results = watch(connection, widgetsQuery);
+      await loaded(results);
+
+      await connection.currentClient
+        .mutation(updateMutation, { id: "2", name: "updated" }, optimisticActionContext("widget", { id: "2", name: "updated" }))
+        .toPromise();
+      await settled();
+
+      expect(namesDuringMutation).toEqual(["first", "updated"]);
+      expect(namesOf(results.at(-1))).toEqual(["first", "second"]);
+    });
+
+    test("applies the records produced by the optimistic option of imperative actions", async () => {
+      let namesDuringMutation: string[] | undefined;
+      let results: OperationResult[] = [];
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=Widgets")
+        .reply(200, widgetsResponse(widget("1", "first")))
+        .post("/api/graphql?operation=updateWidget")
+        .reply(200, () => {
+          namesDuringMutation = namesOf(results.at(-1));
+          return {
+            data: {
+              updateWidget: { __typename: "UpdateWidgetResult", success: true, errors: null, widget: widget("1", "renamed") },
+              gadgetMeta: { __typename: "GadgetApplicationMeta", hydrations: {} },
+            },
+          };
+        });
+
+      const connection = cachedConnection();
+      results = watch(connection, widgetsQuery);
+      await loaded(results);
+
+      const record = await actionRunner(
+        { connection },
+        "updateWidget",
+        { __typename: true, id: true, name: true },
+        "widget",
+        "widget",
+        false,
+        {
+          id: { value: "1", type: "GadgetID", required: true },
+          widget: { value: { name: "renamed" }, type: "UpdateWidgetInput" },
+        },
+        { optimistic: (variables) => ({ id: variables.id, name: variables.widget.name }) }
+      );
+      await settled();
+
+      expect(record.name).toEqual("renamed");
+      expect(namesDuringMutation).toEqual(["renamed"]);
+      expect(namesOf(results.at(-1))).toEqual(["renamed"]);
+    });
+  });
+});
@@ -1,4 +1,17 @@
-import { actionOperation, enqueueActionOperation, findManyOperation, findOneByFieldOperation, findOneOperation } from "../src/index.js";
+import {
+  actionOperation,
+  aggregateOperation,
+  backgroundActionOutcomeSubscription,
+  backgroundActionResultOperation,
+  cancelBackgroundActionOperation,
+  countOperation,
+  enqueueActionOperation,
+  enqueueManyActionOperation,
+  findManyOperation,
+  findOneByFieldOperation,
+  findOneOperation,
+} from "../src/index.js";
+import { MockGlobalAction, MockWidgetCreateAction } from "./mockActions.js";
 
 describe("operation builders", () => {
   describe("findOneOperation", () => {
@@ -261,6 +274,75 @@ describe("operation builders", () => {
     });
   });
 
+  describe("countOperation", () => {
+    test("countOperation should build a query counting the records of a model", () => {
+      expect(countOperation("widgets", "widget")).toMatchInlineSnapshot(`
+        {
+          "query": "query widgetsCount {
+          widgets {
+            count
+          }
+        }",
+          "variables": {},
+        }
+      `);
+    });
+
+    test("countOperation should build a live query counting the records matching a filter and search", () => {
+      expect(countOperation("widgets", "widget", { filter: { name: { equals: "foo" } }, search: "bar", live: true }))
+        .toMatchInlineSnapshot(`
+        {
+          "query": "query widgetsCount($filter: [WidgetFilter!], $search: String) @live {
+          widgets(filter: $filter, search: $search) {
+            count
+          }
+        }",
+          "variables": {
+            "filter": {
+              "name": {
+                "equals": "foo",
+              },
+            },
+            "search": "bar",
+          },
+        }
+      `);
+    });
+  });
+
+  describe("aggregateOperation", () => {
+    test("aggregateOperation should build a query aggregating only the requested fields", () => {
+      expect(
+        aggregateOperation("widgets", "widget", {
+          filter: { inventoryCount: { greaterThan: 0 } },
+          groupBy: ["category"],
+          sum: ["inventoryCount"],
+          max: ["updatedAt"],
+        })
+      ).toMatchInlineSnapshot(`
+        {
+          "query": "query widgetsAggregate($filter: [WidgetFilter!]) {
+          widgets(filter: $filter) {
+            aggregate(groupBy: ["category"]) {
+              group
+              count
+              sum(fields: ["inventoryCount"])
+              max(fields: ["updatedAt"])
+            }
+          }
+        }",
+          "variables": {
+            "filter": {
+              "inventoryCount": {
+                "greaterThan": 0,
+              },
+            },
+          },
+        }
+      `);
+    });
+  });
+
   describe("findOneByFieldOperation", () => {
     test("findOneByFieldOperation should build a find by field query for a model", () => {
       expect(findOneByFieldOperation("widget", "foo", "bar", { __typename: true, id: true, state: true }, "widget")).toMatchInlineSnapshot(`
@@ -604,4 +686,219 @@ describe("operation builders", () => {
       `);
     });
   });
+
+  describe("enqueueManyActionOperation", () => {
+    test("enqueueManyActionOperation should build a mutation enqueuing each invocation under its own alias", () => {
+      expect(
+        enqueueManyActionOperation(
+          "createWidget",
+          [
+            { variables: { widget: { type: "CreateWidgetInput", value: { name: "foo" } } } },
+            { variables: { widget: { type: "CreateWidgetInput", value: { name: "bar" } } }, options: { id: "fixed-id" } },
+          ],
+          undefined
+        )
+      ).toMatchInlineSnapshot(`
+        {
+          "query": "mutation enqueueManyCreateWidget($widget0: CreateWidgetInput, $backgroundOptions0: EnqueueBackgroundActionOptions, $widget1: CreateWidgetInput, $backgroundOptions1: EnqueueBackgroundActionOptions) {
+          background {
+            enqueue0: createWidget(widget: $widget0, backgroundOptions: $backgroundOptions0) {
+              success
+              errors {
+                message
+                code
+              }
+              backgroundAction {
+                id
+              }
+            }
+            enqueue1: createWidget(widget: $widget1, backgroundOptions: $backgroundOptions1) {
+              success
+              errors {
+                message
+                code
+              }
+              backgroundAction {
+                id
+              }
+            }
+          }
+        }",
+          "variables": {
+            "backgroundOptions0": null,
+            "backgroundOptions1": {
+              "id": "fixed-id",
+            },
+            "widget0": {
+              "name": "foo",
+            },
+            "widget1": {
+              "name": "bar",
+            },
+          },
+        }
+      `);
+    });
+  });
+
+  describe("backgroundActionResultOperation", () => {
+    test("backgroundActionResultOperation should build a query for the result of a model action", () => {
+      expect(backgroundActionResultOperation("app-job-123", MockWidgetCreateAction)).toMatchInlineSnapshot(`
+        {
+          "query": "query createWidgetBackgroundResult($id: String!) {
+          backgroundAction(id: $id) {
+            id
+            state
+            outcome
+            result {
+              ... on CreateWidgetResult {
+                success
+                errors {
+                  message
+                  code
+                  ... on InvalidRecordError {
+                    validationErrors {
+                      message
+                      apiIdentifier
+                    }
+                  }
+                }
+                widget {
+                  id
+                  name
+                  __typename
+                }
+              }
+            }
+          }
+          gadgetMeta {
+            hydrations(modelName: "widget")
+          }
+        }",
+          "variables": {
+            "id": "app-job-123",
+          },
+        }
+      `);
+    });
+
+    test("backgroundActionResultOperation should build a query for the result of a model action with the select option", () => {
+      expect(backgroundActionResultOperation("app-job-123", MockWidgetCreateAction, { select: { id: true } })).toMatchInlineSnapshot(`
+        {
+          "query": "query createWidgetBackgroundResult($id: String!) {
+          backgroundAction(id: $id) {
+            id
+            state
+            outcome
+            result {
+              ... on CreateWidgetResult {
+                success
+                errors {
+                  message
+                  code
+                  ... on InvalidRecordError {
+                    validationErrors {
+                      message
+                      apiIdentifier
+                    }
+                  }
+                }
+                widget {
+                  id
+                  __typename
+                }
+              }
+            }
+          }
+          gadgetMeta {
+            hydrations(modelName: "widget")
+          }
+        }",
+          "variables": {
+            "id": "app-job-123",
+          },
+        }
+      `);
+    });
+
+    test("backgroundActionResultOperation should build a query for the result of a global action", () => {
+      expect(backgroundActionResultOperation("app-job-123", MockGlobalAction)).toMatchInlineSnapshot(`
+        {
+          "query": "query flipAllWidgetsBackgroundResult($id: String!) {
+          backgroundAction(id: $id) {
+            id
+            state
+            outcome
+            result {
+              ... on FlipAllWidgetsResult {
+                success
+                errors {
+                  message
+                  code
+                  ... on InvalidRecordError {
+                    validationErrors {
+                      message
+                      apiIdentifier
+                    }
+                  }
+                }
+                result
+              }
+            }
+          }
+        }",
+          "variables": {
+            "id": "app-job-123",
+          },
+        }
+      `);
+    });
+  });
+
+  describe("backgroundActionOutcomeSubscription", () => {
+    test("backgroundActionOutcomeSubscription should build a subscription for the outcome of a background action", () => {
+      expect(backgroundActionOutcomeSubscription("app-job-123", MockWidgetCreateAction)).toMatchInlineSnapshot(`
+        {
+          "query": "subscription createWidgetBackgroundOutcome($id: String!) {
+          backgroundAction(id: $id) {
+            id
+            state
+            outcome
+          }
+        }",
+          "variables": {
+            "id": "app-job-123",
+          },
+        }
+      `);
+    });
+  });
+
+  describe("cancelBackgroundActionOperation", () => {
+    test("cancelBackgroundActionOperation should build a mutation for cancelling a background action", () => {
+      expect(cancelBackgroundActionOperation("app-job-123")).toMatchInlineSnapshot(`
+        {
+          "query": "mutation CancelBackgroundAction($id: String!) {
+          background {
+            cancelBackgroundAction(id: $id) {
+              success
+              errors {
+                message
+                code
+              }
+              backgroundAction {
+                id
+                state
+                outcome
+              }
+            }
+          }
+        }",
+          "variables": {
+            "id": "app-job-123",
+          },
+        }
+      `);
+    });
+  });
 });
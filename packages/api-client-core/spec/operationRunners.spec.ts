@@ -1,7 +1,14 @@
 import nock from "nock";
 import { BackgroundActionHandle } from "../src/BackgroundActionHandle.js";
 import type { GadgetErrorGroup } from "../src/index.js";
-import { GadgetConnection, actionRunner, enqueueActionRunner } from "../src/index.js";
+import {
+  GadgetConnection,
+  actionRunner,
+  aggregateRunner,
+  countRunner,
+  enqueueActionRunner,
+  enqueueManyActionRunner,
+} from "../src/index.js";
 import { MockBulkFlipDownWidgetsAction, MockBulkUpdateWidgetAction, MockGlobalAction, MockWidgetCreateAction } from "./mockActions.js";
 import { mockUrqlClient } from "./mockUrqlClient.js";
 
@@ -152,6 +159,113 @@ describe("operationRunners", () => {
       await expect(promise).rejects.toThrowErrorMatchingInlineSnapshot(`"GGT_SOMETHING_OR_OTHER: An internal error occurred"`);
     });
 
+    test("can run an upsert action, reporting whether it created or updated the record", async () => {
+      const outcomes: string[] = [];
+      const upsert = () =>
+        actionRunner<{ id: string; name: string }>(
+          {
+            connection,
+          },
+          "upsertWidget",
+          { id: true, name: true },
+          "widget",
+          "widget",
+          false,
+          {
+            on: {
+              value: ["name"],
+              type: "[String!]",
+            },
+            widget: {
+              value: { name: "hello" },
+              required: false,
+              type: "UpsertWidgetInput",
+            },
+          },
+          { onUpsertOutcome: (outcome) => outcomes.push(outcome) },
+          null,
+          false
+        );
+
+      const created = upsert();
+      expect(mockUrqlClient.executeMutation.mock.calls[0][0].query.loc?.source.body).toContain("... on CreateWidgetResult");
+      mockUrqlClient.executeMutation.pushResponse("upsertWidget", {
+        data: {
+          upsertWidget: {
+            __typename: "CreateWidgetResult",
+            success: true,
+            errors: null,
+            widget: { id: "123", name: "hello" },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+      const createdRecord = await created;
+
+      const updated = upsert();
+      mockUrqlClient.executeMutation.pushResponse("upsertWidget", {
+        data: {
+          upsertWidget: {
+            __typename: "UpdateWidgetResult",
+            success: true,
+            errors: null,
+            widget: { id: "123", name: "hello" },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+      const updatedRecord = await updated;
+
+      expect(createdRecord.id).toEqual("123");
+      expect(updatedRecord.id).toEqual("123");
+      expect(outcomes).toEqual(["created", "updated"]);
+    });
+
+    test("can run an upsert action on a namespaced model, reporting whether it created or updated the record", async () => {
+      let outcome: string | undefined;
+      const promise = actionRunner<{ id: string; name: string }>(
+        {
+          connection,
+        },
+        "upsertWidget",
+        { id: true, name: true },
+        "widget",
+        "widget",
+        false,
+        {
+          widget: {
+            value: { name: "hello" },
+            required: false,
+            type: "UpsertWidgetInput",
+          },
+        },
+        { onUpsertOutcome: (upsertOutcome) => (outcome = upsertOutcome) },
+        "inventory",
+        false
+      );
+
+      expect(mockUrqlClient.executeMutation.mock.calls[0][0].query.loc?.source.body).toContain("... on InventoryCreateWidgetResult");
+      mockUrqlClient.executeMutation.pushResponse("upsertWidget", {
+        data: {
+          inventory: {
+            upsertWidget: {
+              __typename: "InventoryCreateWidgetResult",
+              success: true,
+              errors: null,
+              widget: { id: "123", name: "hello" },
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect((await promise).id).toEqual("123");
+      expect(outcome).toEqual("created");
+    });
+
     test("can run a bulk action by ids", async () => {
       const promise = actionRunner<{ id: string; name: string }>(
         {
@@ -377,6 +491,45 @@ describe("operationRunners", () => {
     });
   });
 
+  describe("countRunner", () => {
+    test("can count the records matching a filter", async () => {
+      const promise = countRunner({ connection }, "widgets", "widget", { filter: { name: { equals: "foo" } } });
+
+      expect(mockUrqlClient.executeQuery.mock.calls[0][0].variables).toEqual({ filter: { name: { equals: "foo" } } });
+      mockUrqlClient.executeQuery.pushResponse("widgetsCount", {
+        data: { widgets: { count: 12 } },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect(await promise).toEqual(12);
+    });
+  });
+
+  describe("aggregateRunner", () => {
+    test("can aggregate records into groups, filling in the aggregates that weren't requested", async () => {
+      const promise = aggregateRunner({ connection }, "widgets", "widget", { groupBy: ["category"], sum: ["inventoryCount"] });
+
+      mockUrqlClient.executeQuery.pushResponse("widgetsAggregate", {
+        data: {
+          widgets: {
+            aggregate: [
+              { group: { category: "tools" }, count: 2, sum: { inventoryCount: 10 } },
+              { group: { category: "toys" }, count: 1, sum: { inventoryCount: 3 } },
+            ],
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      expect(await promise).toEqual([
+        { group: { category: "tools" }, count: 2, sum: { inventoryCount: 10 }, avg: {}, min: {}, max: {} },
+        { group: { category: "toys" }, count: 1, sum: { inventoryCount: 3 }, avg: {}, min: {}, max: {} },
+      ]);
+    });
+  });
+
   describe("enqueueActionRunner", () => {
     test("can enqueue an action and return a handle", async () => {
       const promise = enqueueActionRunner(connection, MockWidgetCreateAction, { widget: { name: "new widget" } });
@@ -773,4 +926,195 @@ describe("operationRunners", () => {
       expect(handle.id).toEqual("fixed-id");
     });
   });
+
+  describe("enqueueManyActionRunner", () => {
+    test("can enqueue many invocations of an action in one mutation and return a handle for each", async () => {
+      const promise = enqueueActionRunner(connection, MockWidgetCreateAction, [{ widget: { name: "foo" } }, { widget: { name: "bar" } }]);
+
+      expect(mockUrqlClient.executeMutation.mock.calls.length).toEqual(1);
+      expect(mockUrqlClient.executeMutation.mock.calls[0][0].variables).toEqual({
+        backgroundOptions0: {},
+        backgroundOptions1: {},
+        widget0: { name: "foo" },
+        widget1: { name: "bar" },
+      });
+
+      mockUrqlClient.executeMutation.pushResponse("enqueueManyCreateWidget", {
+        data: {
+          background: {
+            enqueue0: { success: true, errors: null, backgroundAction: { id: "app-job-1" } },
+            enqueue1: { success: true, errors: null, backgroundAction: { id: "app-job-2" } },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      // the variables of this mock action are typed as \`any\`, so typescript can't tell a list of invocations apart from one invocation
+      const handles = (await promise) as unknown as BackgroundActionHandle<any>[];
+      expect(handles).toHaveLength(2);
+      expect(handles[0]).toBeInstanceOf(BackgroundActionHandle);
+      expect(handles.map((handle) => handle.id)).toEqual(["app-job-1", "app-job-2"]);
+    });
+
+    test("splits the invocations into chunks", async () => {
+      const promise = enqueueManyActionRunner(
+        connection,
+        MockWidgetCreateAction,
+        [{ widget: { name: "a" } }, { widget: { name: "b" } }, { widget: { name: "c" } }],
+        { chunkSize: 2 }
+      );
+
+      expect(mockUrqlClient.executeMutation.mock.calls.length).toEqual(1);
+      expect(Object.keys(mockUrqlClient.executeMutation.mock.calls[0][0].variables)).toHaveLength(4);
+      mockUrqlClient.executeMutation.pushResponse("enqueueManyCreateWidget", {
+        data: {
+          background: {
+            enqueue0: { success: true, errors: null, backgroundAction: { id: "app-job-1" } },
+            enqueue1: { success: true, errors: null, backgroundAction: { id: "app-job-2" } },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockUrqlClient.executeMutation.mock.calls.length).toEqual(2);
+      expect(mockUrqlClient.executeMutation.mock.calls[1][0].variables).toEqual({ backgroundOptions0: {}, widget0: { name: "c" } });
+      mockUrqlClient.executeMutation.pushResponse("enqueueManyCreateWidget", {
+        data: {
+          background: {
+            enqueue0: { success: true, errors: null, backgroundAction: { id: "app-job-3" } },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      const handles = await promise;
+      expect(handles.map((handle) => handle.id)).toEqual(["app-job-1", "app-job-2", "app-job-3"]);
+    });
+
+    test("throws an error group holding the handles that were enqueued if some invocations fail", async () => {
+      const promise = enqueueManyActionRunner(connection, MockWidgetCreateAction, [
+        { widget: { name: "foo" } },
+        { widget: { name: "bar" } },
+      ]);
+
+      mockUrqlClient.executeMutation.pushResponse("enqueueManyCreateWidget", {
+        data: {
+          background: {
+            enqueue0: { success: true, errors: null, backgroundAction: { id: "app-job-1" } },
+            enqueue1: { success: false, errors: [{ code: "GGT_UNKNOWN", message: "Something went wrong" }], backgroundAction: null },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      const error: GadgetErrorGroup<BackgroundActionHandle<any>> = await promise.catch((error) => error);
+      expect(error.errors).toHaveLength(1);
+      expect(error.message).toMatchInlineSnapshot(`"GGT_UNKNOWN: Something went wrong"`);
+      expect(error.results?.map((handle) => handle.id)).toEqual(["app-job-1"]);
+      expect(error.indexes).toEqual([1]);
+    });
+
+    test("reports the index of each failed invocation across chunks", async () => {
+      const promise = enqueueManyActionRunner(
+        connection,
+        MockWidgetCreateAction,
+        [{ widget: { name: "foo" } }, { widget: { name: "bar" } }, { widget: { name: "baz" } }],
+        { chunkSize: 2 }
+      );
+
+      mockUrqlClient.executeMutation.pushResponse("enqueueManyCreateWidget", {
+        data: {
+          background: {
+            enqueue0: { success: true, errors: null, backgroundAction: { id: "app-job-1" } },
+            enqueue1: { success: true, errors: null, backgroundAction: { id: "app-job-2" } },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      mockUrqlClient.executeMutation.pushResponse("enqueueManyCreateWidget", {
+        data: {
+          background: {
+            enqueue0: { success: false, errors: [{ code: "GGT_UNKNOWN", message: "Something went wrong" }], backgroundAction: null },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      const error: GadgetErrorGroup<BackgroundActionHandle<any>> = await promise.catch((error) => error);
+      expect(error.results?.map((handle) => handle.id)).toEqual(["app-job-1", "app-job-2"]);
+      expect(error.indexes).toEqual([2]);
+    });
+
+    test("ignores duplicate ID errors per invocation when onDuplicateID: ignore is set", async () => {
+      const promise = enqueueManyActionRunner(
+        connection,
+        MockWidgetCreateAction,
+        [{ widget: { name: "foo" } }, { widget: { name: "bar" } }],
+        {
+          id: (variables) => `import-${variables.widget.name}`,
+          onDuplicateID: "ignore",
+        }
+      );
+
+      expect(mockUrqlClient.executeMutation.mock.calls[0][0].variables).toEqual({
+        backgroundOptions0: { id: "import-foo" },
+        backgroundOptions1: { id: "import-bar" },
+        widget0: { name: "foo" },
+        widget1: { name: "bar" },
+      });
+
+      mockUrqlClient.executeMutation.pushResponse("enqueueManyCreateWidget", {
+        data: {
+          background: {
+            enqueue0: { success: true, errors: null, backgroundAction: { id: "import-foo" } },
+            enqueue1: {
+              success: false,
+              errors: [{ code: "GGT_DUPLICATE_BACKGROUND_ACTION_ID", message: "Duplicate ID" }],
+              backgroundAction: null,
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      const handles = await promise;
+      expect(handles.map((handle) => handle.id)).toEqual(["import-foo", "import-bar"]);
+    });
+
+    test("treats a list of lists of inputs to a bulk action as many invocations", async () => {
+      const promise = enqueueActionRunner(connection, MockBulkFlipDownWidgetsAction, [["123"], ["456"]]);
+
+      expect(mockUrqlClient.executeMutation.mock.calls[0][0].variables).toEqual({
+        backgroundOptions0: {},
+        backgroundOptions1: {},
+        ids0: ["123"],
+        ids1: ["456"],
+      });
+
+      mockUrqlClient.executeMutation.pushResponse("enqueueManyBulkFlipDownWidgets", {
+        data: {
+          background: {
+            enqueue0: { success: true, errors: null, backgroundAction: { id: "app-job-1" } },
+            enqueue1: { success: true, errors: null, backgroundAction: { id: "app-job-2" } },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      const handles = (await promise) as unknown as BackgroundActionHandle<any>[];
+      expect(handles.map((handle) => handle.id)).toEqual(["app-job-1", "app-job-2"]);
+    });
+  });
 });
@@ -0,0 +1,222 @@
+import { createHash, webcrypto } from "crypto";
+import gql from "gql-tag";
+import type { IncomingMessage, ServerResponse } from "http";
+import { createServer } from "http";
+import type { AddressInfo, Socket } from "net";
+import { GadgetConnection } from "../src/index.js";
+
+const widgetQuery = gql`
+  query GetWidget($id: GadgetID!) {
+    widget(id: $id) {
+      id
+    }
+  }
+`;
+
+const flipMutation = gql`
+  mutation FlipWidgets {
+    flipWidgets {
+      success
+    }
+  }
+`;
+
+const hashOf = (query: string) => createHash("sha256").update(query).digest("hex");
+
+interface ReceivedRequest {
+  method: string;
+  url: URL;
+  body: any;
+}
+
+/** A tiny GraphQL server that remembers documents by hash the way an automatic persisted query server does */
+const startMockServer = async (options: { supported?: boolean } = {}) => {
+  const documents = new Map<string, string>();
+  const requests: ReceivedRequest[] = [];
+
+  const respond = (response: ServerResponse, body: any) => {
+    response.writeHead(200, { "content-type": "application/json" });
+    response.end(JSON.stringify(body));
+  };
+
+  const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let raw = "";
+    request.on("data", (chunk) => (raw += chunk));
+    request.on("end", () => {
+      const url = new URL(request.url!, "http://localhost");
+      let body: any;
+      if (request.method == "GET") {
+        body = {
+          query: url.searchParams.get("query") ?? undefined,
+          variables: JSON.parse(url.searchParams.get("variables") ?? "{}"),
+          extensions: JSON.parse(url.searchParams.get("extensions") ?? "{}"),
+        };
+      } else {
+        body = JSON.parse(raw);
+      }
+      requests.push({ method: request.method!, url, body });
+
+      const persistedQuery = body.extensions?.persistedQuery;
+      let query: string | undefined = body.query;
+      if (persistedQuery) {
+        if (options.supported === false) {
+          return respond(response, { errors: [{ message: "PersistedQueryNotSupported" }] });
+        }
+        if (query) {
+          if (hashOf(query) != persistedQuery.sha256Hash) {
+            return respond(response, { errors: [{ message: "provided sha does not match query" }] });
+          }
+          documents.set(persistedQuery.sha256Hash, query);
+        } else {
+          query = documents.get(persistedQuery.sha256Hash);
+          if (!query) return respond(response, { errors: [{ message: "PersistedQueryNotFound" }] });
+        }
+      }
+
+      if (query!.includes("flipWidgets")) {
+        respond(response, { data: { flipWidgets: { success: true } } });
+      } else {
+        respond(response, { data: { widget: { id: body.variables.id } } });
+      }
+    });
+  });
+
+  const sockets = new Set<Socket>();
+  server.on("connection", (socket: Socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+  });
+
+  // destroy the fetch implementation's idle keep-alive connections so that closing the server doesn't wait for them to time out
+  const close = async () => {
+    for (const socket of sockets) socket.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  };
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { close, requests, documents, endpoint: `http://127.0.0.1:${port}/api/graphql` };
+};
+
+describe("persistedQueryExchange", () => {
+  let closeServer: (() => Promise<void>) | undefined;
+
+  beforeAll(() => {
+    // node before v19 only exposes the Web Crypto API on the crypto module
+    (globalThis as any).crypto ??= webcrypto;
+  });
+
+  afterEach(async () => {
+    await closeServer?.();
+    closeServer = undefined;
+  });
+
+  const connectionFor = (endpoint: string, persistedQueries: GadgetConnection["options"]["persistedQueries"] = true) =>
+    new GadgetConnection({
+      endpoint,
+      authenticationMode: { anonymous: true },
+      requestPolicy: "network-only",
+      // use node's built in fetch, which nock mocks set up by other specs in the same worker don't intercept, to talk to the real local server
+      fetchImplementation: globalThis.fetch,
+      persistedQueries,
+    });
+
+  test("sends the full document once when the server doesn't know the hash yet, and only the hash with a GET request after that", async () => {
+    const mock = await startMockServer();
+    closeServer = mock.close;
+    const connection = connectionFor(mock.endpoint);
+
+    const first = await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+    const second = await connection.currentClient.query(widgetQuery, { id: "2" }).toPromise();
+
+    expect(first.data).toEqual({ widget: { id: "1" } });
+    expect(second.data).toEqual({ widget: { id: "2" } });
+
+    expect(mock.requests.map((request) => request.method)).toEqual(["GET", "POST", "GET"]);
+    const [miss, register, hit] = mock.requests;
+    expect(miss.body.query).toBeUndefined();
+    expect(miss.body.extensions.persistedQuery).toEqual({ version: 1, sha256Hash: hashOf(register.body.query) });
+    expect(miss.url.searchParams.get("operation")).toEqual("GetWidget");
+    expect(register.body.query).toContain("query GetWidget");
+    expect(register.body.extensions.persistedQuery).toEqual({ version: 1, sha256Hash: hashOf(register.body.query), miss: true });
+    expect(hit.body.query).toBeUndefined();
+    expect(hit.body.variables).toEqual({ id: "2" });
+    expect(hit.body.extensions.persistedQuery.sha256Hash).toEqual(miss.body.extensions.persistedQuery.sha256Hash);
+    expect(mock.documents.get(hit.body.extensions.persistedQuery.sha256Hash)).toEqual(register.body.query);
+  });
+
+  test("sends persisted mutations with POST requests", async () => {
+    const mock = await startMockServer();
+    closeServer = mock.close;
+    const connection = connectionFor(mock.endpoint);
+
+    await connection.currentClient.mutation(flipMutation, {}).toPromise();
+    const result = await connection.currentClient.mutation(flipMutation, {}).toPromise();
+
+    expect(result.data).toEqual({ flipWidgets: { success: true } });
+    expect(mock.requests.map((request) => request.method)).toEqual(["POST", "POST", "POST"]);
+    expect(mock.requests[2].body.query).toBeUndefined();
+    expect(mock.requests[2].body.extensions.persistedQuery.sha256Hash).toEqual(hashOf(mock.requests[1].body.query));
+  });
+
+  test("sends persisted queries with POST requests if asked to", async () => {
+    const mock = await startMockServer();
+    closeServer = mock.close;
+    const connection = connectionFor(mock.endpoint, { preferGetMethod: false });
+
+    await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+
+    expect(mock.requests.map((request) => request.method)).toEqual(["POST", "POST"]);
+  });
+
+  test("stops sending hashes when the server doesn't support persisted queries", async () => {
+    const mock = await startMockServer({ supported: false });
+    closeServer = mock.close;
+    const connection = connectionFor(mock.endpoint);
+
+    const first = await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+    const second = await connection.currentClient.query(widgetQuery, { id: "2" }).toPromise();
+
+    expect(first.data).toEqual({ widget: { id: "1" } });
+    expect(second.data).toEqual({ widget: { id: "2" } });
+    expect(mock.requests.map((request) => (request.body.extensions?.persistedQuery ? "hash" : "document"))).toEqual([
+      "hash",
+      "document",
+      "document",
+    ]);
+  });
+
+  test("sends full documents when the Web Crypto API isn't available to hash them with", async () => {
+    const mock = await startMockServer();
+    closeServer = mock.close;
+    const connection = connectionFor(mock.endpoint);
+    const crypto = Object.getOwnPropertyDescriptor(globalThis, "crypto");
+    Object.defineProperty(globalThis, "crypto", { value: undefined, configurable: true });
+
+    try {
+      const result = await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+      expect(result.data).toEqual({ widget: { id: "1" } });
+    } finally {
+      if (crypto) Object.defineProperty(globalThis, "crypto", crypto);
+    }
+
+    expect(mock.requests).toHaveLength(1);
+    expect(mock.requests[0].method).toEqual("POST");
+    expect(mock.requests[0].body.query).toContain("query GetWidget");
+    expect(mock.requests[0].body.extensions?.persistedQuery).toBeUndefined();
+  });
+
+  test("doesn't send hashes unless asked to", async () => {
+    const mock = await startMockServer();
+    closeServer = mock.close;
+    const connection = connectionFor(mock.endpoint, false);
+
+    await connection.currentClient.query(widgetQuery, { id: "1" }).toPromise();
+
+    expect(mock.requests).toHaveLength(1);
+    expect(mock.requests[0].method).toEqual("POST");
+    expect(mock.requests[0].body.query).toContain("query GetWidget");
+    expect(mock.requests[0].body.extensions).toBeUndefined();
+  });
+});
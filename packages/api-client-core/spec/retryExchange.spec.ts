@@ -0,0 +1,135 @@
+import gql from "gql-tag";
+import nock from "nock";
+import { GadgetConnection } from "../src/index.js";
+
+nock.disableNetConnect();
+
+const query = gql`
+  {
+    meta {
+      appName
+    }
+  }
+`;
+
+const mutation = gql`
+  mutation FlipWidgets {
+    flipWidgets {
+      success
+    }
+  }
+`;
+
+describe("retryExchange", () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    expect(nock.pendingMocks()).toEqual([]);
+  });
+
+  const connectionWithRetries = (retry: GadgetConnection["options"]["retry"] = { initialDelayMs: 1, randomizeDelay: false }) =>
+    new GadgetConnection({ endpoint: "https://someapp.gadget.app/api/graphql", authenticationMode: { anonymous: true }, retry });
+
+  test("doesn't retry requests unless asked to", async () => {
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=meta").reply(503, "Service Unavailable");
+
+    const connection = new GadgetConnection({
+      endpoint: "https://someapp.gadget.app/api/graphql",
+      authenticationMode: { anonymous: true },
+    });
+    const result = await connection.currentClient.query(query, {}).toPromise();
+
+    expect(result.error?.response.status).toEqual(503);
+  });
+
+  test("retries queries that fail because the server is unavailable", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=meta")
+      .reply(503, "Service Unavailable")
+      .post("/api/graphql?operation=meta")
+      .reply(200, { data: { meta: { appName: "some app" } } });
+
+    const result = await connectionWithRetries().currentClient.query(query, {}).toPromise();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual({ meta: { appName: "some app" } });
+  });
+
+  test("retries queries that fail with a network error", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=meta")
+      .replyWithError("socket hang up")
+      .post("/api/graphql?operation=meta")
+      .reply(200, { data: { meta: { appName: "some app" } } });
+
+    const result = await connectionWithRetries().currentClient.query(query, {}).toPromise();
+
+    expect(result.data).toEqual({ meta: { appName: "some app" } });
+  });
+
+  test("gives up after the maximum number of attempts", async () => {
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=meta").times(2).reply(429, "Too Many Requests");
+
+    const result = await connectionWithRetries({ maxAttempts: 2, initialDelayMs: 1 }).currentClient.query(query, {}).toPromise();
+
+    expect(result.error?.response.status).toEqual(429);
+  });
+
+  test("doesn't retry requests the server rejected", async () => {
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=meta").reply(400, "Bad Request");
+
+    const result = await connectionWithRetries().currentClient.query(query, {}).toPromise();
+
+    expect(result.error?.response.status).toEqual(400);
+  });
+
+  test("doesn't retry mutations by default", async () => {
+    nock("https://someapp.gadget.app").post("/api/graphql?operation=FlipWidgets").reply(503, "Service Unavailable");
+
+    const result = await connectionWithRetries().currentClient.mutation(mutation, {}).toPromise();
+
+    expect(result.error?.response.status).toEqual(503);
+  });
+
+  test("retries mutations marked safe to retry", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=FlipWidgets")
+      .reply(503, "Service Unavailable")
+      .post("/api/graphql?operation=FlipWidgets")
+      .reply(200, { data: { flipWidgets: { success: true } } });
+
+    const result = await connectionWithRetries().currentClient.mutation(mutation, {}, { retrySafe: true }).toPromise();
+
+    expect(result.data).toEqual({ flipWidgets: { success: true } });
+  });
+
+  test("waits for as long as the Retry-After header asks", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=meta")
+      .reply(429, "Too Many Requests", { "Retry-After": "1" })
+      .post("/api/graphql?operation=meta")
+      .reply(200, { data: { meta: { appName: "some app" } } });
+
+    const start = Date.now();
+    const result = await connectionWithRetries().currentClient.query(query, {}).toPromise();
+
+    expect(result.data).toEqual({ meta: { appName: "some app" } });
+    expect(Date.now() - start).toBeGreaterThanOrEqual(1000);
+  });
+
+  test("uses the given predicate to decide which errors are retryable", async () => {
+    nock("https://someapp.gadget.app")
+      .post("/api/graphql?operation=meta")
+      .reply(400, "Bad Request")
+      .post("/api/graphql?operation=meta")
+      .reply(200, { data: { meta: { appName: "some app" } } });
+
+    const retryIf = jest.fn(() => true);
+    const result = await connectionWithRetries({ initialDelayMs: 1, retryIf }).currentClient.query(query, {}).toPromise();
+
+    expect(result.data).toEqual({ meta: { appName: "some app" } });
+    expect(retryIf).toHaveBeenCalledTimes(1);
+  });
+});
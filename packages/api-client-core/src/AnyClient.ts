@@ -4,6 +4,11 @@ import type { InternalModelManager } from "./InternalModelManager.js";
 
 export const $modelRelationships = Symbol.for("gadget/modelRelationships");
 
+/**
+ * The relationship fields of each model of a Gadget app, keyed by model and then by field API identifier
+ */
+export type ModelRelationships = { [modelName: string]: { [apiIdentifier: string]: { type: string; model: string } } };
+
 /**
  * An instance of any Gadget app's API client object
  */
@@ -15,7 +20,7 @@ export interface AnyClient {
   internal: {
     [key: string]: InternalModelManager;
   };
-  [$modelRelationships]?: { [modelName: string]: { [apiIdentifier: string]: { type: string; model: string } } };
+  [$modelRelationships]?: ModelRelationships;
 }
 
 /**
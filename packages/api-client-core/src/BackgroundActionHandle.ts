@@ -1,13 +1,258 @@
+import type { OperationResult } from "@urql/core";
+import { onEnd, pipe, subscribe } from "wonka";
 import type { GadgetConnection } from "./GadgetConnection.js";
 import type { AnyActionFunction } from "./GadgetFunctions.js";
-import type { ActionFunctionOptions, EnqueueBackgroundActionOptions } from "./types.js";
+import {
+  backgroundActionAttemptsOperation,
+  backgroundActionOutcomeSubscription,
+  backgroundActionResultOperation,
+  backgroundActionStatusOperation,
+  cancelBackgroundActionOperation,
+  retryBackgroundActionOperation,
+} from "./operationBuilders.js";
+import {
+  GadgetBackgroundActionTimeoutError,
+  GadgetClientError,
+  GadgetErrorGroup,
+  GadgetOperationError,
+  assertMutationSuccess,
+  assertOperationSuccess,
+  gadgetErrorFor,
+  hydrateRecord,
+  hydrateRecordArray,
+} from "./support.js";
+import type {
+  ActionFunctionOptions,
+  ActionResultSelection,
+  BackgroundActionAttempt,
+  BackgroundActionOutcome,
+  BackgroundActionResult,
+  BackgroundActionResultOptions,
+  BackgroundActionStatus,
+  EnqueueBackgroundActionOptions,
+  Selectable,
+} from "./types.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/** Wait for the given time, or reject with the signal's reason if it is aborted first */
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+/** Wait for the given promise, or reject with the signal's reason if it is aborted first */
+const unlessAborted = <T>(promise: Promise<T>, signal: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
 
 /** Represents a handle to a background action which has been enqueued */
 export class BackgroundActionHandle<Action extends AnyActionFunction> {
-  constructor(readonly connection: GadgetConnection, readonly id: string, readonly options: EnqueueBackgroundActionOptions<Action>) {}
+  constructor(
+    readonly connection: GadgetConnection,
+    readonly id: string,
+    readonly options: EnqueueBackgroundActionOptions<Action>,
+    /** The action that was enqueued, which is needed to select and process the action's result */
+    readonly action?: Action
+  ) {}
+
+  /**
+   * Wait for this background action to complete and return the result.
+   *
+   * For model actions, returns the hydrated record (or records for bulk actions) using the `select` option or the action's default selection. For global actions and actions with a return type, returns the action's result.
+   *
+   * Throws the error the action failed with if the action fails and won't be retried again. Throws a `GadgetBackgroundActionTimeoutError` if the `timeoutMs` option elapses or the `signal` option is aborted before the action completes, which stops waiting for the action but doesn't cancel it.
+   **/
+  async result<Options extends ActionFunctionOptions<Action>>(
+    options?: Options | Selectable<ActionResultSelection<Action>>,
+    waitOptions?: BackgroundActionResultOptions
+  ): Promise<BackgroundActionResult<Action, Options>> {
+    const action = this.action;
+    if (!action) {
+      throw new GadgetClientError(`Can't wait for the result of background action ${this.id} without the action that was enqueued`);
+    }
+
+    const mode = waitOptions?.mode ?? (this.connection.websocketsAvailable ? "subscription" : "poll");
+    const { timeoutMs, signal } = waitOptions ?? {};
+
+    // stop waiting for the outcome when the timeout elapses or the caller's signal is aborted, whichever comes first
+    const waiting = new AbortController();
+    const stop = (message: string) => waiting.abort(new GadgetBackgroundActionTimeoutError(message));
+    const timer = timeoutMs
+      ? setTimeout(() => stop(`Timed out waiting for background action ${this.id} after ${timeoutMs}ms`), timeoutMs)
+      : undefined;
+    const onAbort = () => stop(`Stopped waiting for background action ${this.id} because the signal was aborted`);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      if (waiting.signal.aborted) throw waiting.signal.reason;
+
+      const fetchStatusAndResult = async () => {
+        const response = await unlessAborted(this.fetchResult(action, options), waiting.signal);
+        const { id, state, outcome } = assertOperationSuccess(response, ["backgroundAction"]);
+        waitOptions?.onStatus?.({ id, state, outcome });
+        return { response, outcome };
+      };
+
+      let response: OperationResult<any>;
+      if (mode == "subscription") {
+        await this.waitForOutcome(action, waiting.signal, waitOptions?.onStatus);
+        ({ response } = await fetchStatusAndResult());
+      } else {
+        const pollInterval = waitOptions?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+        for (;;) {
+          const fetched = await fetchStatusAndResult();
+          response = fetched.response;
+          if (fetched.outcome) break;
+          await sleep(pollInterval, waiting.signal);
+        }
+      }
+
+      return this.processResult(action, response);
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /** Get the current state of this background action, like if it is still waiting to run, running, retrying, or finished */
+  async status(): Promise<BackgroundActionStatus> {
+    const plan = backgroundActionStatusOperation(this.id);
+    const response = await this.connection.currentClient.query(plan.query, plan.variables, { requestPolicy: "network-only" }).toPromise();
+    return assertOperationSuccess(response, ["backgroundAction"]);
+  }
+
+  /** Get the list of attempts that have been made to run this background action so far, oldest first */
+  async attempts(): Promise<BackgroundActionAttempt[]> {
+    const plan = backgroundActionAttemptsOperation(this.id);
+    const response = await this.connection.currentClient.query(plan.query, plan.variables, { requestPolicy: "network-only" }).toPromise();
+    const backgroundAction = assertOperationSuccess(response, ["backgroundAction"]);
+    return backgroundAction.attempts.map((attempt: any) => ({
+      ...attempt,
+      startedAt: new Date(attempt.startedAt),
+      finishedAt: attempt.finishedAt ? new Date(attempt.finishedAt) : null,
+    }));
+  }
+
+  /**
+   * Cancel this background action so that it won't be attempted again. Attempts that are already running are not interrupted.
+   *
+   * Throws an error if the background action has already finished.
+   **/
+  async cancel(): Promise<BackgroundActionStatus> {
+    return await this.control(cancelBackgroundActionOperation(this.id), "cancelBackgroundAction");
+  }
+
+  /**
+   * Attempt this background action again right away, instead of waiting for the next scheduled retry.
+   *
+   * Throws an error if the background action isn't waiting to be retried.
+   **/
+  async retryNow(): Promise<BackgroundActionStatus> {
+    return await this.control(retryBackgroundActionOperation(this.id), "retryBackgroundAction");
+  }
+
+  private async control(plan: { query: string; variables: Record<string, any> }, operation: string) {
+    const response = await this.connection.currentClient.mutation(plan.query, plan.variables).toPromise();
+    return assertMutationSuccess(response, ["background", operation]).backgroundAction as BackgroundActionStatus;
+  }
+
+  private async fetchResult(action: Action, options?: ActionFunctionOptions<Action> | Selectable<ActionResultSelection<Action>>) {
+    const plan = backgroundActionResultOperation(this.id, action, options);
+    return await this.connection.currentClient.query(plan.query, plan.variables, { requestPolicy: "network-only" }).toPromise();
+  }
+
+  private async waitForOutcome(action: Action, signal: AbortSignal, onStatus?: (status: BackgroundActionStatus) => void) {
+    const plan = backgroundActionOutcomeSubscription(this.id, action);
+
+    let resolveOutcome!: () => void;
+    let rejectOutcome!: (error: unknown) => void;
+    const outcome = new Promise<void>((resolve, reject) => {
+      resolveOutcome = resolve;
+      rejectOutcome = reject;
+    });
+
+    const subscription = pipe(
+      this.connection.currentClient.subscription(plan.query, plan.variables),
+      onEnd(() => {
+        // does nothing if the outcome was already reported
+        rejectOutcome(
+          new GadgetOperationError(`Subscription to background action ${this.id} ended before it reported an outcome.`, "GGT_UNKNOWN")
+        );
+      }),
+      subscribe((response) => {
+        try {
+          const status: BackgroundActionStatus = assertOperationSuccess(response, ["backgroundAction"]);
+          if (status.outcome) {
+            resolveOutcome();
+          } else {
+            onStatus?.(status);
+          }
+        } catch (error) {
+          rejectOutcome(error);
+        }
+      })
+    );
+    const onAbort = () => rejectOutcome(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      await outcome;
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+      subscription.unsubscribe();
+    }
+  }
+
+  private processResult(action: Action, response: OperationResult<any>): any {
+    const backgroundAction = assertOperationSuccess(response, ["backgroundAction"]);
+    const outcome: BackgroundActionOutcome = backgroundAction.outcome;
+    const result = backgroundAction.result;
+
+    if (outcome == "cancelled") {
+      throw new GadgetOperationError(`Background action ${this.id} was cancelled.`, "GGT_BACKGROUND_ACTION_CANCELLED");
+    }
+
+    if (!result) {
+      throw new GadgetOperationError(
+        `Background action ${this.id} finished with outcome ${outcome} but returned no result.`,
+        outcome == "failed" ? "GGT_BACKGROUND_ACTION_FAILED" : "GGT_INTERNAL_ERROR"
+      );
+    }
+
+    const errors = result.errors?.map((error: any) => gadgetErrorFor(error));
+
+    if (action.type == "action" && action.isBulk) {
+      const records =
+        result[action.modelSelectionField] && !action.hasReturnType
+          ? hydrateRecordArray(response, result[action.modelSelectionField])
+          : undefined;
+      if (errors?.length) throw new GadgetErrorGroup(errors, records);
+      return action.hasReturnType ? result.results : records;
+    }
+
+    if (!result.success) {
+      throw errors?.[0] ?? new GadgetOperationError(`Background action ${this.id} failed.`, "GGT_BACKGROUND_ACTION_FAILED");
+    }
+
+    if (action.type == "action" && !action.hasReturnType) {
+      // delete actions have no selection and don't return anything
+      if (action.defaultSelection == null) return;
+      return hydrateRecord(response, result[action.modelSelectionField]);
+    }
 
-  /** Wait for this background action to complete and return the result. */
-  async result<Options extends ActionFunctionOptions<Action>>(options?: Options) {
-    // TODO: implement
+    return result.result;
   }
 }
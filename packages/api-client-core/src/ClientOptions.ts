@@ -1,5 +1,11 @@
-import type { Exchange } from "@urql/core";
+import type { Exchange, SSRExchangeParams } from "@urql/core";
 import type { GadgetSubscriptionClientOptions } from "./GadgetConnection";
+import type { SessionStorageAdapter } from "./InMemoryStorage.js";
+import type { TransactionStorage } from "./TransactionStorage.js";
+import type { BatchExchangeOptions } from "./exchanges/batchExchange.js";
+import type { NormalizedCacheExchangeOptions } from "./exchanges/normalizedCacheExchange.js";
+import type { PersistedQueryExchangeOptions } from "./exchanges/persistedQueryExchange.js";
+import type { RetryExchangeOptions } from "./exchanges/retryExchange.js";
 
 /** All the options for a Gadget client */
 export interface ClientOptions {
@@ -45,6 +51,74 @@ export interface ClientOptions {
    * A list of exchanges to merge into the default exchanges used by the client.
    */
   exchanges?: Exchanges;
+  /**
+   * Where to track which transaction is open for the code that is currently running. Defaults to an `AsyncLocalStorage` where the runtime supports it, so that concurrent transactions made on the same client in different async call chains are isolated from each other.
+   * In runtimes without `AsyncLocalStorage`, only one transaction can be open per client at a time. Pass an `AsyncLocalTransactionStorage` made with the `AsyncLocalStorage` class for runtimes where it can't be found automatically, like node before 20.16.
+   **/
+  transactionStorage?: TransactionStorage;
+  /**
+   * Retry HTTP GraphQL requests that fail because of network errors, or because the Gadget API is overloaded or unavailable, backing off exponentially between attempts and honoring any `Retry-After` header sent by the server.
+   * Queries are retried, as well as mutations that are marked safe to retry by passing `{ retrySafe: true }` in their operation context.
+   * Pass `true` to retry with the default settings, or an object to configure the retry behavior.
+   *
+   * @default false
+   **/
+  retry?: boolean | RetryExchangeOptions;
+  /**
+   * Send GraphQL queries issued at the same time together in one HTTP request, instead of one request per query. Identical queries in the same batch are only sent once.
+   * Mutations are never batched, nor are persisted queries that may be sent with `GET` so that they stay cacheable. Individual queries can opt out by passing `{ batch: false }` in their operation context.
+   * Pass `true` to batch with the default settings, or an object to configure how big batches can get and how long to wait for more queries to batch.
+   *
+   * @default false
+   **/
+  batching?: boolean | BatchExchangeOptions;
+  /**
+   * Send HTTP GraphQL requests as automatic persisted queries, which send a SHA-256 hash of the GraphQL document instead of the whole document. If the server doesn't recognize the hash yet, the request is sent again with the full document so the server can remember it for next time.
+   * Persisted queries are sent with `GET` requests so that their responses can be cached by CDNs.
+   * Pass `true` to use persisted queries with the default settings, or an object to configure how they are sent.
+   *
+   * @default false
+   **/
+  persistedQueries?: boolean | PersistedQueryExchangeOptions;
+  /**
+   * Extra HTTP headers to send with every request to the Gadget API, like headers forwarded from an incoming request when rendering on the server.
+   **/
+  headers?: Record<string, string>;
+  /**
+   * Record the results of queries so they can be serialized with `connection.dehydrate()` when rendering on the server, and restored with `connection.rehydrate()` in the browser so the same queries don't need to be fetched again.
+   * Pass `true` to use the default settings, or an object of options for urql's `ssrExchange`. When rendering on the server, use `connection.fork()` to create a connection per request so that results aren't shared between requests.
+   *
+   * @default false
+   **/
+  ssr?: boolean | SSRExchangeParams;
+  /**
+   * Cache the records in query results by their type and ID, instead of caching whole query results. Records returned by actions update every cached query holding them in place, and records deleted by actions are removed from cached lists.
+   * Pass `true` to use the normalized cache, or an object with options for it. The cache recognizes the app's models from the generated client's `$modelRelationships` once the client is passed to the React `<Provider />`, or from the `modelRelationships` passed here. Unlike the default document cache, the normalized cache is also used outside the browser when enabled.
+   *
+   * @default false
+   **/
+  normalizedCache?: boolean | NormalizedCacheExchangeOptions;
+  /**
+   * An OpenTelemetry tracer to create a span with for each HTTP request made to the Gadget API. The W3C `traceparent` header of each span is sent with the request so the request can be traced within Gadget too.
+   * Pass the tracer returned by `trace.getTracer()` from `@opentelemetry/api`.
+   *
+   * @default undefined
+   **/
+  tracer?: OpenTelemetryTracer;
+}
+
+/** The parts of an OpenTelemetry `Span` that the Gadget client uses */
+export interface OpenTelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: any): void;
+  spanContext(): { traceId: string; spanId: string; traceFlags: number };
+  end(): void;
+}
+
+/** The parts of an OpenTelemetry `Tracer` that the Gadget client uses */
+export interface OpenTelemetryTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: Record<string, string | number | boolean> }): OpenTelemetrySpan;
 }
 
 /** Options to configure a specific browser-based authentication mode */
@@ -56,9 +130,14 @@ export interface BrowserSessionAuthenticationModeOptions {
   initialToken?: string;
 
   /**
-   * Configures how the authentication token is persisted. See `BrowserSessionStorageType`.
+   * Configures how the authentication token is persisted. See `BrowserSessionStorageType`. Ignored if a custom `storage` adapter is passed.
    */
-  storageType: BrowserSessionStorageType;
+  storageType?: BrowserSessionStorageType;
+
+  /**
+   * A custom store to persist the authentication token in, instead of one of the browser's built in stores. The store can be asynchronous, in which case requests wait for the stored token to be read before they are sent.
+   */
+  storage?: SessionStorageAdapter;
 }
 
 /**
@@ -79,6 +158,20 @@ export enum BrowserSessionStorageType {
   Temporary = "temporary",
 }
 
+/** A bearer token returned by a `tokenProvider`, and when it stops being valid */
+export interface ProvidedToken {
+  /** The token to send as the bearer token for requests to the Gadget API */
+  token: string;
+  /** When the token expires, as a `Date` or a millisecond timestamp. Tokens without an expiry are reused until the Gadget API rejects one. */
+  expiresAt?: Date | number;
+}
+
+/**
+ * Function that fetches a fresh bearer token for authenticating with the Gadget API.
+ * Is passed `forceRefresh: true` when the Gadget API rejected the last token before it was due to expire, in which case any cached token shouldn't be returned.
+ */
+export type TokenProvider = (context: { forceRefresh: boolean }) => Promise<ProvidedToken>;
+
 /** Describes how to authenticate an instance of the client with the Gadget platform */
 export interface AuthenticationModeOptions {
   // Use an API key to authenticate with Gadget.
@@ -96,6 +189,10 @@ export interface AuthenticationModeOptions {
   // This is used to communicate within Gadget itself and shouldn't be used to connect to Gadget from other systems
   internalAuthToken?: string;
 
+  // Use short-lived bearer tokens returned by the given function to authenticate with Gadget.
+  // The function is called again to refresh the token shortly before it expires, and if the Gadget API rejects it with a 401.
+  tokenProvider?: TokenProvider;
+
   // @private Use a passed custom function for managing authentication. For some fancy integrations that the API client supports, like embedded Shopify apps, we use platform native features to authenticate with the Gadget backend.
   custom?: {
     processFetch(input: RequestInfo | URL, init: RequestInit): Promise<void>;
@@ -2,29 +2,64 @@
 import { isLiveQueryOperationDefinitionNode } from "@n1ru4l/graphql-live-query";
 import { applyLiveQueryJSONDiffPatch } from "./graphql-live-query-utils/index.js";
 import { applyAsyncIterableIteratorToSink, makeAsyncIterableIteratorFromSink } from "@n1ru4l/push-pull-async-iterable-iterator";
-import type { ClientOptions, RequestPolicy } from "@urql/core";
-import { Client, cacheExchange, fetchExchange, subscriptionExchange } from "@urql/core";
+import type { ClientOptions, RequestPolicy, SSRData, SSRExchange, SSRExchangeParams } from "@urql/core";
+import { Client, cacheExchange, fetchExchange, ssrExchange, subscriptionExchange } from "@urql/core";
 import type { ExecutionResult } from "graphql";
 import type { Sink, Client as SubscriptionClient, ClientOptions as SubscriptionClientOptions } from "graphql-ws";
 import { CloseCode, createClient as createSubscriptionClient } from "graphql-ws";
 import WebSocket from "isomorphic-ws";
-import type { AuthenticationModeOptions, BrowserSessionAuthenticationModeOptions, Exchanges } from "./ClientOptions.js";
+import type { ModelRelationships } from "./AnyClient.js";
+import type {
+  AuthenticationModeOptions,
+  BrowserSessionAuthenticationModeOptions,
+  Exchanges,
+  OpenTelemetrySpan,
+  OpenTelemetryTracer,
+  TokenProvider,
+} from "./ClientOptions.js";
 import { BrowserSessionStorageType } from "./ClientOptions.js";
 import { GadgetTransaction, TransactionRolledBack } from "./GadgetTransaction.js";
-import type { BrowserStorage } from "./InMemoryStorage.js";
+import type { BrowserStorage, SessionStorageAdapter } from "./InMemoryStorage.js";
 import { InMemoryStorage } from "./InMemoryStorage.js";
+import type { TransactionStorage } from "./TransactionStorage.js";
+import { defaultTransactionStorage } from "./TransactionStorage.js";
+import type { BatchExchangeOptions } from "./exchanges/batchExchange.js";
+import { batchExchange } from "./exchanges/batchExchange.js";
+import { finishedTransactionExchange } from "./exchanges/finishedTransactionExchange.js";
+import type { OperationEndEvent, OperationStartEvent } from "./exchanges/instrumentationExchange.js";
+import { instrumentationExchange } from "./exchanges/instrumentationExchange.js";
+import type { NormalizedCacheExchangeOptions } from "./exchanges/normalizedCacheExchange.js";
+import { normalizedCacheExchange } from "./exchanges/normalizedCacheExchange.js";
 import { operationNameExchange } from "./exchanges/operationNameExchange.js";
+import type { PersistedQueryExchangeOptions } from "./exchanges/persistedQueryExchange.js";
+import { persistedQueryExchange } from "./exchanges/persistedQueryExchange.js";
+import type { RetryExchangeOptions } from "./exchanges/retryExchange.js";
+import { retryExchange } from "./exchanges/retryExchange.js";
+import { transactionDeadlineExchange } from "./exchanges/transactionDeadlineExchange.js";
+import { transactionalExchange } from "./exchanges/transactionalExchange.js";
 import { urlParamExchange } from "./exchanges/urlParamExchange.js";
 import {
   GadgetTooManyRequestsError,
+  GadgetTransactionTimeoutError,
   GadgetUnexpectedCloseError,
   GadgetWebsocketConnectionTimeoutError,
   isCloseEvent,
   storageAvailable,
 } from "./support.js";
+import { $gadgetConnection } from "./symbols.js";
 
 export type TransactionRun<T> = (transaction: GadgetTransaction) => Promise<T>;
 
+/** Describes a change to the session token stored for the `browserSession` authentication mode */
+export interface SessionChangeEvent {
+  /** The session token now stored, or null if the session was cleared */
+  sessionToken: string | null;
+  /** The session token stored before the change, or null if there wasn't one */
+  previousSessionToken: string | null;
+  /** If the change was made by another browser tab or window sharing the same storage */
+  fromOtherTab: boolean;
+}
+
 export enum GadgetGraphQLCloseCode {
   TooManyRequests = 4294,
 }
@@ -37,13 +72,122 @@ export interface GadgetSubscriptionClientOptions extends Partial<SubscriptionCli
 const DEFAULT_CONN_ATTEMPTS = 2;
 const DEFAULT_CONN_ACK_TIMEOUT = 4_800;
 const DEFAULT_CONN_GLOBAL_TIMEOUT = 10_000;
+// how long before a provided token expires to fetch a new one, so that requests don't race the expiry
+const TOKEN_REFRESH_MARGIN = 30_000;
 
 const RETRYABLE_CLOSE_CODES = [CloseCode.ConnectionAcknowledgementTimeout, CloseCode.ConnectionInitialisationTimeout];
 
+const SERIALIZATION_FAILURE_CODE = "GGT_TRANSACTION_SERIALIZATION_FAILURE";
+const DEFAULT_TRANSACTION_RETRY_ATTEMPTS = 3;
+const DEFAULT_TRANSACTION_RETRY_INITIAL_DELAY = 100;
+const DEFAULT_TRANSACTION_RETRY_MAX_DELAY = 5_000;
+const DEFAULT_TRANSACTION_RETRY_BACKOFF_FACTOR = 2;
+
+/**
+ * Options for governing how a transaction is retried when it fails
+ */
+export interface TransactionRetryOptions {
+  /** The maximum number of times to run the transaction, including the first attempt. Default is 3. */
+  maxAttempts?: number;
+  /** How long to wait before the first retry, in milliseconds. Default is 100. */
+  initialDelayMs?: number;
+  /** The longest to wait between any two attempts, in milliseconds. Default is 5000. */
+  maxDelayMs?: number;
+  /** The exponential backoff factor to use for calculating the delay before successive retries. Default is 2. */
+  backoffFactor?: number;
+  /** Decide if a transaction that failed with the given error should be retried. Defaults to `isRetryableTransactionError`. */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Options for governing how a transaction is run
+ */
+export interface GadgetTransactionOptions extends GadgetSubscriptionClientOptions {
+  /**
+   * Re-run the transaction callback in a fresh transaction if the transaction fails with a retryable error, like the connection being interrupted, the Gadget API being overloaded, or a serialization conflict with another transaction.
+   * Pass `true` to retry with the default settings, or an object to configure the retry behavior.
+   *
+   * Retries only apply to the outermost transaction, nested transactions are retried along with the transaction they are nested in.
+   *
+   * @default false
+   */
+  retry?: boolean | TransactionRetryOptions;
+
+  /**
+   * The longest the transaction may run for, in milliseconds. If the transaction callback hasn't finished by then, the transaction is rolled back and a `GadgetTransactionTimeoutError` is thrown.
+   * The deadline is shared by all attempts when retrying, and is available to exchanges as `transactionDeadline` in the context of each operation made within the transaction.
+   *
+   * The callback isn't interrupted when the transaction times out, but any operations it makes afterwards fail instead of being sent. Long running callbacks can watch the transaction's `signal`, which is aborted once the transaction has been rolled back, to stop early.
+   *
+   * Only applies to the outermost transaction.
+   */
+  timeoutMs?: number;
+
+  /**
+   * An `AbortSignal` that rolls back the transaction when it is aborted, throwing a `GadgetTransactionTimeoutError`. Like with `timeoutMs`, the callback keeps running, but operations it makes afterwards fail.
+   *
+   * Only applies to the outermost transaction.
+   */
+  signal?: AbortSignal;
+}
+
+/** Limits on how long one transaction can run for */
+interface TransactionLimits {
+  timeoutMs?: number;
+  deadline?: Date;
+  signal?: AbortSignal;
+}
+
+/**
+ * Returns true if an error thrown by a transaction is safe to retry in a new transaction, which includes the connection being closed in a way that can be retried, the Gadget API being overloaded, or a serialization conflict with another transaction.
+ */
+export const isRetryableTransactionError = (error: unknown): boolean => {
+  if (error instanceof GadgetTooManyRequestsError) return true;
+  if (error instanceof GadgetUnexpectedCloseError) return isCloseEvent(error.event) && RETRYABLE_CLOSE_CODES.includes(error.event.code);
+  return (error as any)?.code == SERIALIZATION_FAILURE_CODE;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Run some work, rejecting with a `GadgetTransactionTimeoutError` if it doesn't finish within the given limits */
+const withinLimits = async <T>(limits: TransactionLimits, work: () => Promise<T>): Promise<T> => {
+  const { timeoutMs, deadline, signal } = limits;
+  if (!deadline && !signal) return await work();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const exceeded = new Promise<never>((_resolve, reject) => {
+    if (deadline) {
+      timer = setTimeout(
+        () => reject(new GadgetTransactionTimeoutError(`Transaction timed out after ${timeoutMs}ms`)),
+        deadline.getTime() - Date.now()
+      );
+    }
+    onAbort = () => reject(new GadgetTransactionTimeoutError("Transaction was aborted"));
+    signal?.addEventListener("abort", onAbort);
+  });
+
+  try {
+    return await Promise.race([work(), exceeded]);
+  } finally {
+    if (timer) clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
+};
+
 export const $transaction = Symbol.for("gadget/transaction");
-export const $gadgetConnection = Symbol.for("gadget/connection");
 
 const sessionStorageKey = "token";
+// values of OpenTelemetry's SpanKind.CLIENT and SpanStatusCode.ERROR
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/** The W3C trace context header identifying the given span, for continuing the trace within Gadget */
+const traceHeaders = (span?: OpenTelemetrySpan): Record<string, string> => {
+  if (!span) return {};
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  return { traceparent: `00-${traceId}-${spanId}-${traceFlags.toString(16).padStart(2, "0")}` };
+};
 const base64 = typeof btoa !== "undefined" ? btoa : (str: string) => Buffer.from(str).toString("base64");
 
 export interface GadgetConnectionOptions {
@@ -58,6 +202,22 @@ export interface GadgetConnectionOptions {
   applicationId?: string;
   baseRouteURL?: string;
   exchanges?: Exchanges;
+  transactionStorage?: TransactionStorage;
+  retry?: boolean | RetryExchangeOptions;
+  batching?: boolean | BatchExchangeOptions;
+  persistedQueries?: boolean | PersistedQueryExchangeOptions;
+  headers?: Record<string, string>;
+  ssr?: boolean | SSRExchangeParams;
+  normalizedCache?: boolean | NormalizedCacheExchangeOptions;
+  tracer?: OpenTelemetryTracer;
+}
+
+/** Options to change for a connection created by `GadgetConnection.fork` */
+export interface GadgetConnectionForkOptions {
+  /** How the forked connection authenticates. Defaults to the authentication mode of the connection it was forked from. */
+  authenticationMode?: AuthenticationModeOptions;
+  /** Extra HTTP headers to send with every request the forked connection makes, merged over any headers of the connection it was forked from */
+  headers?: Record<string, string>;
 }
 
 /**
@@ -72,6 +232,7 @@ export enum AuthenticationMode {
   InternalAuthToken = "internal-auth-token",
   Anonymous = "anonymous",
   Custom = "custom",
+  TokenProvider = "token-provider",
 }
 
 /**
@@ -92,16 +253,36 @@ export class GadgetConnection {
 
   // the base client using HTTP requests that non-transactional operations will use
   private baseClient: Client;
+  // records and replays query results for server side rendering, kept across client resets so recorded results aren't lost
+  private ssr?: SSRExchange;
 
   /** @private (but accessible for testing purposes) */
   baseSubscriptionClient?: SubscriptionClient;
 
-  // the transactional websocket client that will be used inside a transaction block
-  private currentTransaction: GadgetTransaction | null = null;
+  /** @private The relationships between the app's models from the generated client's `$modelRelationships`, which the normalized cache uses to recognize the app's records when they aren't passed in its options */
+  modelRelationships?: ModelRelationships;
+
+  // tracks which transaction is open for each async call chain, so operations inside a transaction block use its transactional websocket client
+  private transactionStorage: TransactionStorage;
+  // all the outermost transactions currently open on this connection, across all async call chains
+  private openTransactions = new Set<GadgetTransaction>();
 
   // How this client will authenticate (if at all) against the Gadget backed
   authenticationMode: AuthenticationMode = AuthenticationMode.Anonymous;
   private sessionTokenStore?: BrowserStorage;
+  // custom session storage adapters might be async, so the token is kept in memory in the sessionTokenStore, loaded from the adapter once, and written back to it in order
+  private sessionStorageAdapter?: SessionStorageAdapter;
+  private sessionTokenLoaded?: Promise<void>;
+  private sessionTokenPersisted: Promise<void> = Promise.resolve();
+  private sessionTokenWrites = 0;
+  private sessionChangeListeners = new Set<(event: SessionChangeEvent) => void>();
+  private operationListeners = {
+    start: new Set<(event: OperationStartEvent) => void>(),
+    end: new Set<(event: OperationEndEvent) => void>(),
+  };
+  // the last token returned by the tokenProvider authentication mode, and the in-flight request for a new one, if any
+  private providedToken?: { token: string; expiresAt?: number };
+  private pendingProvidedToken?: Promise<string>;
   private requestPolicy: RequestPolicy;
 
   constructor(readonly options: GadgetConnectionOptions) {
@@ -129,11 +310,50 @@ export class GadgetConnection {
       ...options.exchanges,
     };
 
+    this.transactionStorage = options.transactionStorage ?? defaultTransactionStorage();
+
+    if (options.ssr) {
+      this.ssr = ssrExchange({ isClient: typeof window != "undefined", ...(options.ssr === true ? {} : options.ssr) });
+    }
+
     this.setAuthenticationMode(options.authenticationMode);
 
     this.baseClient = this.newBaseClient();
   }
 
+  /**
+   * Create a new connection with the same configuration as this one, but its own authentication state, clients and caches. Useful for making a connection per incoming request when rendering on the server, so that one request's session or cached data is never used for another.
+   *
+   * @example
+   * const connection = api.connection.fork({ authenticationMode: { browserSession: { initialToken: sessionTokenFromCookie } } });
+   */
+  fork(options: GadgetConnectionForkOptions = {}) {
+    const connection = new GadgetConnection({
+      ...this.options,
+      fetchImplementation: this._fetchImplementation,
+      authenticationMode: options.authenticationMode ?? this.options.authenticationMode,
+      headers: { ...this.options.headers, ...options.headers },
+    });
+    connection.modelRelationships = this.modelRelationships;
+    return connection;
+  }
+
+  /**
+   * Serialize the results of the queries this connection has run so far, to send along with server rendered HTML and pass to `rehydrate` in the browser. Requires the `ssr` option.
+   */
+  dehydrate(): SSRData {
+    if (!this.ssr) throw new Error("Can't dehydrate query results from a GadgetConnection that wasn't created with the `ssr` option");
+    return this.ssr.extractData();
+  }
+
+  /**
+   * Restore query results serialized by `dehydrate` on the server, so that the same queries are answered from them instead of being fetched again. Requires the `ssr` option.
+   */
+  rehydrate(data: SSRData) {
+    if (!this.ssr) throw new Error("Can't rehydrate query results into a GadgetConnection that wasn't created with the `ssr` option");
+    this.ssr.restoreData(data);
+  }
+
   private get sessionStorageKey() {
     return `${sessionStorageKey}-${this.endpoint}`;
   }
@@ -142,6 +362,20 @@ export class GadgetConnection {
     return this.currentTransaction?.client || this.baseClient;
   }
 
+  // the transaction open for the currently running async call chain, if any
+  private get currentTransaction() {
+    const transaction = this.transactionStorage.getStore();
+    return transaction && this.openTransactions.has(transaction.rootTransaction) ? transaction : null;
+  }
+
+  /**
+   * If this connection has a `WebSocket` implementation available for making subscriptions
+   * @private
+   */
+  get websocketsAvailable() {
+    return !!this.websocketImplementation;
+  }
+
   set fetchImplementation(implementation: typeof globalThis.fetch) {
     this._fetchImplementation = implementation;
     this.resetClients();
@@ -161,8 +395,12 @@ export class GadgetConnection {
         this.authenticationMode = AuthenticationMode.APIKey;
       } else if (options.custom) {
         this.authenticationMode = AuthenticationMode.Custom;
+      } else if (options.tokenProvider) {
+        this.authenticationMode = AuthenticationMode.TokenProvider;
       }
       this.options.authenticationMode = options;
+      this.providedToken = undefined;
+      if (this.authenticationMode != AuthenticationMode.BrowserSession) this.stopWatchingSessionStorage();
     }
 
     this.authenticationMode ??= AuthenticationMode.Anonymous;
@@ -171,9 +409,15 @@ export class GadgetConnection {
   enableSessionMode(options?: true | BrowserSessionAuthenticationModeOptions) {
     this.authenticationMode = AuthenticationMode.BrowserSession;
 
-    const desiredMode = !options || typeof options == "boolean" ? BrowserSessionStorageType.Durable : options.storageType;
+    const desiredMode =
+      !options || typeof options == "boolean"
+        ? BrowserSessionStorageType.Durable
+        : options.storageType ?? BrowserSessionStorageType.Durable;
+    const storageAdapter = options && typeof options == "object" ? options.storage : undefined;
     let sessionTokenStore;
-    if (desiredMode == BrowserSessionStorageType.Durable && storageAvailable("localStorage")) {
+    if (storageAdapter) {
+      sessionTokenStore = new InMemoryStorage();
+    } else if (desiredMode == BrowserSessionStorageType.Durable && storageAvailable("localStorage")) {
       sessionTokenStore = window.localStorage;
     } else if (desiredMode == BrowserSessionStorageType.Session && storageAvailable("sessionStorage")) {
       sessionTokenStore = window.sessionStorage;
@@ -181,35 +425,202 @@ export class GadgetConnection {
       sessionTokenStore = new InMemoryStorage();
     }
 
+    this.sessionStorageAdapter = storageAdapter;
+    this.sessionTokenStore = sessionTokenStore;
+    this.sessionTokenLoaded = storageAdapter ? this.loadSessionToken(storageAdapter) : undefined;
+
     if (options !== null && typeof options === "object" && "initialToken" in options && options.initialToken) {
       sessionTokenStore.setItem(this.sessionStorageKey, options.initialToken);
+      this.persistSessionToken(options.initialToken);
     }
 
-    this.sessionTokenStore = sessionTokenStore;
+    this.stopWatchingSessionStorage();
+    // other tabs only hear about changes to localStorage, so only a durable session can be kept in sync between them
+    if (sessionTokenStore === globalThis.window?.localStorage) {
+      window.addEventListener("storage", this.handleStorageEvent);
+    }
     this.resetClients();
   }
 
+  /**
+   * Forget the session token stored for the `browserSession` authentication mode, like when a user signs out. The next request will start a new session.
+   * Other tabs using the same durable session storage are signed out too, and the urql cache is reset in every tab so that no data fetched with the old session is shown.
+   */
+  clearSession() {
+    if (this.authenticationMode != AuthenticationMode.BrowserSession) return;
+    this.setSessionToken(null);
+  }
+
+  /**
+   * Register a listener called whenever the session token stored for the `browserSession` authentication mode changes, either in this tab or in another tab sharing the same durable session storage.
+   * Returns a function that unregisters the listener.
+   */
+  onSessionChange(listener: (event: SessionChangeEvent) => void) {
+    this.sessionChangeListeners.add(listener);
+    return () => {
+      this.sessionChangeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener called whenever this connection starts sending a GraphQL operation to the Gadget API, with the operation's name and variables. Operations answered from the cache without being sent aren't reported.
+   * Returns a function that unregisters the listener.
+   */
+  onOperationStart(listener: (event: OperationStartEvent) => void) {
+    this.operationListeners.start.add(listener);
+    return () => {
+      this.operationListeners.start.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener called whenever this connection gets the result of a GraphQL operation from the Gadget API, with how long the operation took, the size of its result, and the code of any error it failed with.
+   * Returns a function that unregisters the listener.
+   */
+  onOperationEnd(listener: (event: OperationEndEvent) => void) {
+    this.operationListeners.end.add(listener);
+    return () => {
+      this.operationListeners.end.delete(listener);
+    };
+  }
+
+  private setSessionToken(sessionToken: string | null) {
+    const previousSessionToken = this.sessionTokenStore!.getItem(this.sessionStorageKey);
+    if (sessionToken == previousSessionToken) return;
+
+    if (sessionToken) {
+      this.sessionTokenStore!.setItem(this.sessionStorageKey, sessionToken);
+    } else if (this.sessionTokenStore!.removeItem) {
+      this.sessionTokenStore!.removeItem(this.sessionStorageKey);
+    } else {
+      this.sessionTokenStore!.setItem(this.sessionStorageKey, "");
+    }
+    this.persistSessionToken(sessionToken);
+
+    this.sessionChanged({ sessionToken, previousSessionToken, fromOtherTab: false });
+  }
+
+  /** Read the session token from a custom session storage adapter into memory, unless the token was already changed while reading */
+  private async loadSessionToken(storageAdapter: SessionStorageAdapter) {
+    const sessionTokenStore = this.sessionTokenStore!;
+    const writes = this.sessionTokenWrites;
+    try {
+      const sessionToken = await storageAdapter.getItem(this.sessionStorageKey);
+      if (sessionToken && this.sessionTokenStore === sessionTokenStore && this.sessionTokenWrites == writes) {
+        sessionTokenStore.setItem(this.sessionStorageKey, sessionToken);
+      }
+    } catch (error) {
+      console.warn("Encountered an error reading the Gadget session token from the session storage adapter. The error:", error);
+    }
+  }
+
+  /** Write a changed session token back to the custom session storage adapter, if there is one */
+  private persistSessionToken(sessionToken: string | null) {
+    const storageAdapter = this.sessionStorageAdapter;
+    if (!storageAdapter) return;
+
+    this.sessionTokenWrites += 1;
+    const key = this.sessionStorageKey;
+    // chain writes so that they land in the adapter in the order they were made, even if the adapter is async
+    this.sessionTokenPersisted = this.sessionTokenPersisted.then(async () => {
+      try {
+        if (sessionToken) {
+          await storageAdapter.setItem(key, sessionToken);
+        } else if (storageAdapter.removeItem) {
+          await storageAdapter.removeItem(key);
+        } else {
+          await storageAdapter.setItem(key, "");
+        }
+      } catch (error) {
+        console.warn("Encountered an error writing the Gadget session token to the session storage adapter. The error:", error);
+      }
+    });
+  }
+
+  private handleStorageEvent = (event: StorageEvent) => {
+    if (event.storageArea !== this.sessionTokenStore) return;
+    // a null key means the whole storage area was cleared
+    if (event.key !== null && event.key !== this.sessionStorageKey) return;
+
+    this.sessionChanged({
+      sessionToken: (event.key === null ? null : event.newValue) || null,
+      previousSessionToken: (event.key === null ? null : event.oldValue) || null,
+      fromOtherTab: true,
+    });
+  };
+
+  private stopWatchingSessionStorage() {
+    if (typeof window != "undefined") {
+      window.removeEventListener?.("storage", this.handleStorageEvent);
+    }
+  }
+
+  private sessionChanged(event: SessionChangeEvent) {
+    // if the session was cleared, like when signing out in this tab or another one, data cached for the old session can't be shown anymore
+    // tokens handed out by the server, like the one in the payload of a new subscription connection, don't sign anyone in or out, so they leave the clients in place
+    if (!event.sessionToken && event.previousSessionToken && this.openTransactions.size == 0) {
+      this.resetClients();
+    }
+
+    for (const listener of this.sessionChangeListeners) {
+      listener(event);
+    }
+  }
+
   transaction: {
-    <T>(options: GadgetSubscriptionClientOptions, run: TransactionRun<T>): Promise<T>;
+    <T>(options: GadgetTransactionOptions, run: TransactionRun<T>): Promise<T>;
     <T>(run: TransactionRun<T>): Promise<T>;
-  } = async <T>(optionsOrRun: GadgetSubscriptionClientOptions | TransactionRun<T>, maybeRun?: TransactionRun<T>): Promise<T> => {
+  } = async <T>(optionsOrRun: GadgetTransactionOptions | TransactionRun<T>, maybeRun?: TransactionRun<T>): Promise<T> => {
     let run: TransactionRun<T>;
-    let options: GadgetSubscriptionClientOptions;
+    let options: GadgetTransactionOptions;
 
     if (maybeRun) {
       run = maybeRun;
-      options = optionsOrRun as GadgetSubscriptionClientOptions;
+      options = optionsOrRun as GadgetTransactionOptions;
     } else {
       run = optionsOrRun as TransactionRun<T>;
       options = {};
     }
 
     if (this.currentTransaction) {
-      return await run(this.currentTransaction);
+      return await this.nestedTransaction(this.currentTransaction, run);
+    }
+
+    const { retry, timeoutMs, signal, ...subscriptionClientOptions } = options;
+    const limits: TransactionLimits = { timeoutMs, signal, deadline: timeoutMs ? new Date(Date.now() + timeoutMs) : undefined };
+    if (signal?.aborted) {
+      throw new GadgetTransactionTimeoutError("Transaction was aborted before it started");
+    }
+
+    if (!retry) {
+      return await this.runTransaction(subscriptionClientOptions, limits, run);
     }
 
+    const retryOptions = retry === true ? {} : retry;
+    const maxAttempts = retryOptions.maxAttempts ?? DEFAULT_TRANSACTION_RETRY_ATTEMPTS;
+    const initialDelay = retryOptions.initialDelayMs ?? DEFAULT_TRANSACTION_RETRY_INITIAL_DELAY;
+    const maxDelay = retryOptions.maxDelayMs ?? DEFAULT_TRANSACTION_RETRY_MAX_DELAY;
+    const backoffFactor = retryOptions.backoffFactor ?? DEFAULT_TRANSACTION_RETRY_BACKOFF_FACTOR;
+    const isRetryable = retryOptions.isRetryable ?? isRetryableTransactionError;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runTransaction(subscriptionClientOptions, limits, run);
+      } catch (error) {
+        if (attempt >= maxAttempts || !isRetryable(error, attempt)) throw error;
+        // wait somewhere between half and all of the backoff delay so that many clients retrying at once don't all retry in lockstep
+        const delay = Math.min(maxDelay, initialDelay * backoffFactor ** (attempt - 1));
+        await sleep(delay / 2 + (Math.random() * delay) / 2);
+      }
+    }
+  };
+
+  /** Run one attempt at a transaction on a new websocket connection */
+  private async runTransaction<T>(options: GadgetSubscriptionClientOptions, limits: TransactionLimits, run: TransactionRun<T>): Promise<T> {
     let subscriptionClient: SubscriptionClient | null = null;
-    let transaction;
+    let transaction: GadgetTransaction | undefined;
+    let committed = false;
+    const finished = new AbortController();
     try {
       // The server will error if it receives any operations before the auth dance has been completed, so we block on that happening before sending our first operation. It's important that this happens synchronously after instantiating the client so we don't miss any messages
       subscriptionClient = await this.waitForOpenedConnection({
@@ -232,6 +643,10 @@ export class GadgetConnection {
         exchanges: [
           ...this.exchanges.beforeAll,
           operationNameExchange,
+          transactionalExchange,
+          finishedTransactionExchange(finished.signal),
+          ...(limits.deadline ? [transactionDeadlineExchange(limits.deadline)] : []),
+          instrumentationExchange(this.operationListeners),
           ...this.exchanges.beforeAsync,
           subscriptionExchange({
             forwardSubscription(request) {
@@ -252,12 +667,18 @@ export class GadgetConnection {
       });
       (client as any)[$gadgetConnection] = this;
 
-      transaction = new GadgetTransaction(client, subscriptionClient);
-      this.currentTransaction = transaction;
-      await transaction.start();
-      const result = await run(transaction);
-      await transaction.commit();
-      return result;
+      const openedTransaction = new GadgetTransaction(client, subscriptionClient, finished.signal);
+      transaction = openedTransaction;
+      this.openTransactions.add(openedTransaction);
+      return await this.transactionStorage.run(transaction, async () => {
+        const result = await withinLimits(limits, async () => {
+          await openedTransaction.start();
+          return await run(openedTransaction);
+        });
+        await openedTransaction.commit();
+        committed = true;
+        return result;
+      });
     } catch (error) {
       try {
         if (transaction?.open) await transaction.rollback();
@@ -272,15 +693,46 @@ export class GadgetConnection {
         throw error;
       }
     } finally {
+      // the callback may still be running if the transaction timed out or was aborted, so stop it from sending any more operations
+      finished.abort();
       await subscriptionClient?.dispose();
-      this.currentTransaction = null;
+      if (transaction) {
+        this.openTransactions.delete(transaction);
+        await transaction.finish(committed);
+      }
     }
-  };
+  }
+
+  /** Run a transaction within an already open transaction using a savepoint, so that it can be rolled back without rolling back the outer transaction */
+  private async nestedTransaction<T>(outer: GadgetTransaction, run: TransactionRun<T>): Promise<T> {
+    const transaction = outer.nest();
+    try {
+      return await this.transactionStorage.run(transaction, async () => {
+        await transaction.start();
+        const result = await run(transaction);
+        await transaction.commit();
+        return result;
+      });
+    } catch (error) {
+      try {
+        if (transaction.open) await transaction.rollback();
+      } catch (rollbackError) {
+        if (!(rollbackError instanceof TransactionRolledBack)) {
+          console.warn(
+            "Encountered another error while rolling back a nested Gadget transaction that errored. The other error:",
+            rollbackError
+          );
+        }
+      }
+      throw error;
+    }
+  }
 
   close() {
+    this.stopWatchingSessionStorage();
     if (this.baseSubscriptionClient) this.disposeClient(this.baseSubscriptionClient);
-    if (this.currentTransaction) {
-      this.currentTransaction.close();
+    for (const transaction of this.openTransactions) {
+      transaction.close();
     }
   }
 
@@ -297,26 +749,69 @@ export class GadgetConnection {
   fetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
     input = processMaybeRelativeInput(input, this.options.baseRouteURL ?? this.options.endpoint);
 
-    if (this.isGadgetRequest(input)) {
-      init.headers = { ...this.requestHeaders(), ...init.headers };
+    const isGadgetRequest = this.isGadgetRequest(input);
+    const passedHeaders = init.headers;
+    if (isGadgetRequest) {
+      init.headers = { ...(await this.requestHeaders()), ...this.options.headers, ...passedHeaders };
 
       if (this.authenticationMode == AuthenticationMode.Custom) {
         await this.options.authenticationMode!.custom!.processFetch(input, init);
       }
     }
 
-    const response = await this._fetchImplementation(input, init);
-    if (this.authenticationMode == AuthenticationMode.BrowserSession) {
-      const headerValue = response.headers.get("x-set-authorization");
-      const sessionToken = headerValue?.startsWith("Session ") ? headerValue.replace("Session ", "") : null;
-      if (sessionToken) {
-        this.sessionTokenStore!.setItem(this.sessionStorageKey, sessionToken);
+    const span = isGadgetRequest ? this.startRequestSpan(input, init) : undefined;
+    try {
+      let response = await this._fetchImplementation(input, init);
+      if (
+        isGadgetRequest &&
+        response.status == 401 &&
+        this.authenticationMode == AuthenticationMode.TokenProvider &&
+        (init.body == null || typeof init.body == "string")
+      ) {
+        // the provided token was rejected before it was due to expire, so get a new one and try once more
+        init.headers = { ...traceHeaders(span), ...(await this.requestHeaders(true)), ...this.options.headers, ...passedHeaders };
+        response = await this._fetchImplementation(input, init);
+      }
+      if (this.authenticationMode == AuthenticationMode.BrowserSession) {
+        const headerValue = response.headers.get("x-set-authorization");
+        const sessionToken = headerValue?.startsWith("Session ") ? headerValue.replace("Session ", "") : null;
+        if (sessionToken) {
+          this.setSessionToken(sessionToken);
+        }
       }
-    }
 
-    return response;
+      span?.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 400) span?.setStatus({ code: SPAN_STATUS_ERROR });
+      return response;
+    } catch (error) {
+      span?.recordException(error);
+      span?.setStatus({ code: SPAN_STATUS_ERROR, message: (error as Error)?.message });
+      throw error;
+    } finally {
+      span?.end();
+    }
   };
 
+  /** Start an OpenTelemetry span for a request to the Gadget API if a tracer was given, adding the span's `traceparent` header to the request */
+  private startRequestSpan(input: RequestInfo | URL, init: RequestInit) {
+    if (!this.options.tracer) return;
+
+    const url = typeof input == "object" && "url" in input ? input.url : String(input);
+    const method = init.method ?? (typeof input == "object" && "method" in input ? input.method : "GET");
+    const operationName = /[?&]operation=([^&]+)/.exec(url)?.[1];
+    const span = this.options.tracer.startSpan(operationName ? `Gadget ${decodeURIComponent(operationName)}` : `Gadget ${method}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        "http.request.method": method,
+        "url.full": url,
+        ...(operationName && { "graphql.operation.name": decodeURIComponent(operationName) }),
+      },
+    });
+
+    init.headers = { ...traceHeaders(span), ...(init.headers as Record<string, string>) };
+    return span;
+  }
+
   private isGadgetRequest(input: RequestInfo | URL) {
     let requestUrl;
 
@@ -340,22 +835,32 @@ export class GadgetConnection {
   }
 
   private resetClients() {
-    if (this.currentTransaction) {
+    if (this.openTransactions.size > 0) {
       throw new Error("Can't reset clients while a transaction is open");
     }
 
-    if (this.baseSubscriptionClient) this.disposeClient(this.baseSubscriptionClient);
+    if (this.baseSubscriptionClient) {
+      this.disposeClient(this.baseSubscriptionClient);
+      this.baseSubscriptionClient = undefined;
+    }
     if (this.baseClient) this.baseClient = this.newBaseClient();
   }
 
   private newBaseClient() {
     const exchanges = [...this.exchanges.beforeAll, operationNameExchange, urlParamExchange];
 
-    // apply urql's default caching behaviour when client side (but skip it server side)
-    if (typeof window != "undefined") {
+    // cache records by type and id if asked to, otherwise apply urql's default caching behaviour when client side (but skip it server side)
+    if (this.options.normalizedCache) {
+      exchanges.push(normalizedCacheExchange(this.options.normalizedCache === true ? {} : this.options.normalizedCache));
+    } else if (typeof window != "undefined") {
       exchanges.push(cacheExchange);
     }
+    if (this.ssr) {
+      exchanges.push(this.ssr);
+    }
     exchanges.push(
+      // report operations that are sent to the Gadget API to any listeners
+      instrumentationExchange(this.operationListeners),
       ...this.exchanges.beforeAsync,
       // standard subscriptions for normal GraphQL subscriptions
       subscriptionExchange({
@@ -396,6 +901,14 @@ export class GadgetConnection {
           };
         },
       }),
+      // send hashes of GraphQL documents instead of the full documents if asked to
+      ...(this.options.persistedQueries
+        ? [persistedQueryExchange(this.options.persistedQueries === true ? {} : this.options.persistedQueries)]
+        : []),
+      // retry failed HTTP requests if asked to
+      ...(this.options.retry ? [retryExchange(this.options.retry === true ? {} : this.options.retry)] : []),
+      // send concurrent queries together in one HTTP request if asked to
+      ...(this.options.batching ? [batchExchange(this.options.batching === true ? {} : this.options.batching)] : []),
       fetchExchange,
       ...this.exchanges.afterAll
     );
@@ -439,9 +952,12 @@ export class GadgetConnection {
         } else if (this.authenticationMode == AuthenticationMode.InternalAuthToken) {
           connectionParams.auth.token = this.options.authenticationMode!.internalAuthToken!;
         } else if (this.authenticationMode == AuthenticationMode.BrowserSession) {
+          await this.sessionTokenLoaded;
           connectionParams.auth.sessionToken = this.sessionTokenStore!.getItem(this.sessionStorageKey);
         } else if (this.authenticationMode == AuthenticationMode.Custom) {
           await this.options.authenticationMode?.custom?.processTransactionConnectionParams(connectionParams);
+        } else if (this.authenticationMode == AuthenticationMode.TokenProvider) {
+          connectionParams.auth.token = await this.currentProvidedToken();
         }
         return connectionParams;
       },
@@ -455,7 +971,7 @@ export class GadgetConnection {
             const browserSession = this.options.authenticationMode?.browserSession;
             const initialToken = browserSession !== null && typeof browserSession === "object" ? browserSession.initialToken : null;
             if (!initialToken) {
-              this.sessionTokenStore!.setItem(this.sessionStorageKey, payload.sessionToken as string);
+              this.setSessionToken(payload.sessionToken as string);
             }
           }
           this.subscriptionClientOptions?.on?.connected?.(socket, payload);
@@ -467,7 +983,7 @@ export class GadgetConnection {
     });
   }
 
-  private requestHeaders() {
+  private async requestHeaders(forceTokenRefresh = false) {
     const headers: Record<string, string> = {};
 
     if (this.authenticationMode == AuthenticationMode.InternalAuthToken) {
@@ -475,10 +991,13 @@ export class GadgetConnection {
     } else if (this.authenticationMode == AuthenticationMode.APIKey) {
       headers.authorization = `Bearer ${this.options.authenticationMode?.apiKey}`;
     } else if (this.authenticationMode == AuthenticationMode.BrowserSession) {
+      await this.sessionTokenLoaded;
       const val = this.sessionTokenStore!.getItem(this.sessionStorageKey);
       if (val) {
         headers.authorization = `Session ${val}`;
       }
+    } else if (this.authenticationMode == AuthenticationMode.TokenProvider) {
+      headers.authorization = `Bearer ${await this.currentProvidedToken(forceTokenRefresh)}`;
     }
 
     headers["x-gadget-environment"] = this.environment;
@@ -486,6 +1005,28 @@ export class GadgetConnection {
     return headers;
   }
 
+  /** Get a token from the tokenProvider authentication mode, reusing the last one until it is about to expire */
+  private async currentProvidedToken(forceRefresh = false): Promise<string> {
+    const provided = this.providedToken;
+    if (!forceRefresh && provided && (provided.expiresAt === undefined || provided.expiresAt - TOKEN_REFRESH_MARGIN > Date.now())) {
+      return provided.token;
+    }
+
+    // share one request for a new token between all the requests that need one at the same time
+    this.pendingProvidedToken ??= (async () => {
+      try {
+        const tokenProvider: TokenProvider = this.options.authenticationMode!.tokenProvider!;
+        const { token, expiresAt } = await tokenProvider({ forceRefresh });
+        this.providedToken = { token, expiresAt: expiresAt === undefined ? undefined : new Date(expiresAt).getTime() };
+        return token;
+      } finally {
+        this.pendingProvidedToken = undefined;
+      }
+    })();
+
+    return await this.pendingProvidedToken;
+  }
+
   private async waitForOpenedConnection(options: GadgetSubscriptionClientOptions): Promise<SubscriptionClient> {
     let subscriptionClient = this.newSubscriptionClient(options);
     let unsubscribes: Function[] = []; // eslint-disable-line @typescript-eslint/ban-types
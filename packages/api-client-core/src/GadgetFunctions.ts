@@ -1,6 +1,6 @@
 import type { GadgetRecord, RecordShape } from "./GadgetRecord.js";
 import type { GadgetRecordList } from "./GadgetRecordList.js";
-import type { LimitToKnownKeys, VariablesOptions } from "./types.js";
+import type { AggregateGroup, LimitToKnownKeys, OptimisticActionOptions, VariablesOptions } from "./types.js";
 
 export type AsyncRecord<T extends RecordShape> = Promise<GadgetRecord<T>>;
 export type AsyncNullableRecord<T extends RecordShape> = Promise<GadgetRecord<T> | null>;
@@ -44,6 +44,24 @@ export interface FindManyFunction<OptionsT, SelectionT, SchemaT, DefaultsT> {
   schemaType: SchemaT | null;
 }
 
+export interface CountFunction<OptionsT> {
+  <Options extends OptionsT>(options?: LimitToKnownKeys<Options, OptionsT>): Promise<number>;
+
+  type: "count";
+  operationName: string;
+  modelApiIdentifier: string;
+  optionsType: OptionsT;
+}
+
+export interface AggregateFunction<OptionsT, FieldT extends string = string> {
+  <Options extends OptionsT>(options?: LimitToKnownKeys<Options, OptionsT>): Promise<AggregateGroup<FieldT>[]>;
+
+  type: "aggregate";
+  operationName: string;
+  modelApiIdentifier: string;
+  optionsType: OptionsT;
+}
+
 export interface FindFirstFunction<OptionsT, SelectionT, SchemaT, DefaultsT> {
   <Options extends OptionsT>(options?: LimitToKnownKeys<Options, OptionsT>): AsyncRecord<any>;
 
@@ -69,29 +87,34 @@ export interface MaybeFindFirstFunction<OptionsT, SelectionT, SchemaT, DefaultsT
 }
 
 interface ActionWithIdAndVariables<OptionsT, VariablesT> {
-  <Options extends OptionsT>(id: string, variables: VariablesT, options?: LimitToKnownKeys<Options, OptionsT>):
+  <Options extends OptionsT>(id: string, variables: VariablesT, options?: LimitToKnownKeys<Options, OptionsT & OptimisticActionOptions>):
     | AsyncRecord<any>
     | Promise<void>;
 }
 
 interface ActionWithNoIdAndVariables<OptionsT, VariablesT> {
-  <Options extends OptionsT>(variables: VariablesT, options?: LimitToKnownKeys<Options, OptionsT>): AsyncRecord<any>;
+  <Options extends OptionsT>(
+    variables: VariablesT,
+    options?: LimitToKnownKeys<Options, OptionsT & OptimisticActionOptions>
+  ): AsyncRecord<any>;
 }
 
 interface ActionWithIdAndNoVariables<OptionsT> {
-  <Options extends OptionsT>(id: string, options?: LimitToKnownKeys<Options, OptionsT>): AsyncRecord<any> | Promise<void>;
+  <Options extends OptionsT>(id: string, options?: LimitToKnownKeys<Options, OptionsT & OptimisticActionOptions>):
+    | AsyncRecord<any>
+    | Promise<void>;
 }
 
 interface ActionWithNoIdAndNoVariables<OptionsT> {
-  <Options extends OptionsT>(options?: LimitToKnownKeys<Options, OptionsT>): AsyncRecord<any>;
+  <Options extends OptionsT>(options?: LimitToKnownKeys<Options, OptionsT & OptimisticActionOptions>): AsyncRecord<any>;
 }
 
 interface BulkActionWithIdsAndNoVariables<OptionsT> {
-  <Options extends OptionsT>(ids: string[], options?: LimitToKnownKeys<Options, OptionsT>): AsyncRecord<any>;
+  <Options extends OptionsT>(ids: string[], options?: LimitToKnownKeys<Options, OptionsT & OptimisticActionOptions>): AsyncRecord<any>;
 }
 
 interface BulkActionWithInputs<OptionsT, VariablesT> {
-  <Options extends OptionsT>(inputs: VariablesT, options?: LimitToKnownKeys<Options, OptionsT>): AsyncRecord<any>;
+  <Options extends OptionsT>(inputs: VariablesT, options?: LimitToKnownKeys<Options, OptionsT & OptimisticActionOptions>): AsyncRecord<any>;
 }
 
 export interface ActionFunctionMetadata<OptionsT, VariablesT, SelectionT, SchemaT, DefaultsT, IsBulk> {
@@ -12,6 +12,12 @@ type PaginationConfig = {
   options?: PaginateOptions;
 };
 
+/** Options for processing the records of a `GadgetRecordIterator` */
+export interface RecordIterationOptions {
+  /** How many records to process at once. Defaults to 1, which processes records one after the other. */
+  concurrency?: number;
+}
+
 /** Represents a list of objects returned from the API. Facilitates iterating and paginating. */
 export class GadgetRecordList<Shape extends RecordShape> extends Array<GadgetRecord<Shape>> {
   modelManager!: AnyModelManager | InternalModelManager;
@@ -89,4 +95,115 @@ export class GadgetRecordList<Shape extends RecordShape> extends Array<GadgetRec
     }) as Promise<GadgetRecordList<Shape>>;
     return await prevPage;
   }
+
+  /**
+   * Iterate over every record on this page and all the pages after it. The next page is requested while the records of the current one are being processed.
+   *
+   * @example
+   * for await (const post of posts.all()) {
+   *   console.log(post.title);
+   * }
+   */
+  all(): GadgetRecordIterator<Shape> {
+    return new GadgetRecordIterator(async () => this);
+  }
+
+  /**
+   * Iterate over this page and each page after it. The next page is requested while the current one is being processed.
+   *
+   * @example
+   * for await (const page of posts.allPages()) {
+   *   console.log(page.length);
+   * }
+   */
+  allPages(): AsyncGenerator<GadgetRecordList<Shape>> {
+    return this.all().pages();
+  }
+}
+
+/** Iterates over every record across the pages of a list, requesting each page while the page before it is being processed. Can be used with `for await`, or with the `map`, `filter` and `forEach` helpers to process many records at once. */
+export class GadgetRecordIterator<Shape extends RecordShape> implements AsyncIterable<GadgetRecord<Shape>> {
+  constructor(readonly firstPage: () => Promise<GadgetRecordList<Shape>>) {}
+
+  /** Iterate over each page of records, starting with the first one */
+  async *pages(): AsyncGenerator<GadgetRecordList<Shape>> {
+    let page: GadgetRecordList<Shape> | null = await this.firstPage();
+    while (page) {
+      let nextPage: Promise<GadgetRecordList<Shape>> | null = null;
+      if (page.hasNextPage) {
+        nextPage = page.nextPage();
+        // the prefetched page is only awaited once the current page has been processed, so avoid reporting it as unhandled if processing stops early
+        nextPage.catch(() => undefined);
+      }
+      yield page;
+      page = nextPage && (await nextPage);
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<GadgetRecord<Shape>> {
+    for await (const page of this.pages()) {
+      yield* page;
+    }
+  }
+
+  /**
+   * Call the given function with every record, and return what it returned for each record in order
+   *
+   * @example
+   * const titles = await (await api.post.findMany()).all().map(async (post) => post.title, { concurrency: 5 });
+   */
+  async map<T>(fn: (record: GadgetRecord<Shape>, index: number) => T | Promise<T>, options?: RecordIterationOptions): Promise<T[]> {
+    const results: T[] = [];
+    await this.forEach(async (record, index) => {
+      results[index] = await fn(record, index);
+    }, options);
+    return results;
+  }
+
+  /**
+   * Return every record the given function returns true for, in order
+   *
+   * @example
+   * const drafts = await (await api.post.findMany()).all().filter(async (post) => !post.published, { concurrency: 5 });
+   */
+  async filter(
+    fn: (record: GadgetRecord<Shape>, index: number) => boolean | Promise<boolean>,
+    options?: RecordIterationOptions
+  ): Promise<GadgetRecord<Shape>[]> {
+    const kept = await this.map(async (record, index) => ((await fn(record, index)) ? record : null), options);
+    return kept.filter((record): record is GadgetRecord<Shape> => record !== null);
+  }
+
+  /**
+   * Call the given function with every record. Runs up to `concurrency` calls at once, and stops starting new calls if one fails, rejecting with the first error once the running calls finish.
+   *
+   * @example
+   * await (await api.post.findMany()).all().forEach(async (post) => await sendDigest(post), { concurrency: 5 });
+   */
+  async forEach(fn: (record: GadgetRecord<Shape>, index: number) => unknown, options?: RecordIterationOptions): Promise<void> {
+    const concurrency = Math.max(1, options?.concurrency ?? 1);
+    const running = new Set<Promise<void>>();
+    const errors: unknown[] = [];
+    let index = 0;
+
+    for await (const record of this) {
+      if (errors.length > 0) break;
+      const task: Promise<void> = (async () => {
+        try {
+          await fn(record, index);
+        } catch (error) {
+          errors.push(error);
+        }
+      })().finally(() => running.delete(task));
+      running.add(task);
+      index += 1;
+
+      if (running.size >= concurrency) {
+        await Promise.race(running);
+      }
+    }
+
+    await Promise.all(running);
+    if (errors.length > 0) throw errors[0];
+  }
 }
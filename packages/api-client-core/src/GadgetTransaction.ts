@@ -5,10 +5,22 @@ import { assertOperationSuccess } from "./support.js";
 /** Represents the error thrown when a transaction is explicity rolled back, sometimes due to another inner error */
 export class TransactionRolledBack extends Error {}
 
+/** A function to run once a transaction has been committed or rolled back */
+export type TransactionCallback = () => void | Promise<void>;
+
 /** Represents an open transaction against the Gadget API */
 export class GadgetTransaction {
   open = false;
-  constructor(readonly client: Client, readonly subscriptionClient: SubscriptionClient) {}
+  private savepointCount = 0;
+  /** @private */
+  commitCallbacks: TransactionCallback[] = [];
+  /** @private */
+  rollbackCallbacks: TransactionCallback[] = [];
+
+  /**
+   * @param signal aborted once the outermost transaction has been committed or rolled back, including when it times out or is aborted while its callback is still running
+   */
+  constructor(readonly client: Client, readonly subscriptionClient: SubscriptionClient, readonly signal = new AbortController().signal) {}
 
   /** Shut down this transaction by closing the connection to the backend. */
   close() {
@@ -18,13 +30,36 @@ export class GadgetTransaction {
     void this.subscriptionClient.dispose();
   }
 
+  /**
+   * Register a function to run once this transaction has been committed and the changes made during it are durable. Useful for deferring side effects like invalidating caches or sending webhooks until the data they describe is committed.
+   *
+   * For nested transactions, the function runs once the outermost transaction has been committed.
+   **/
+  onCommit(callback: TransactionCallback) {
+    this.assertOpen();
+    this.commitCallbacks.push(callback);
+  }
+
+  /**
+   * Register a function to run once this transaction has been rolled back and the changes made during it have been discarded.
+   *
+   * For nested transactions, the function runs if either the nested transaction or any transaction it is nested within is rolled back.
+   **/
+  onRollback(callback: TransactionCallback) {
+    this.assertOpen();
+    this.rollbackCallbacks.push(callback);
+  }
+
   /** Explicitly roll back this transaction, preventing any of the changes made during it from being committed. */
   async rollback() {
-    assertOperationSuccess(await this.client.mutation(`mutation RollbackTransaction { internal { rollbackTransaction }}`, {}).toPromise(), [
-      "internal",
-      "rollbackTransaction",
-    ]);
-    this.open = false;
+    try {
+      assertOperationSuccess(
+        await this.client.mutation(`mutation RollbackTransaction { internal { rollbackTransaction }}`, {}).toPromise(),
+        ["internal", "rollbackTransaction"]
+      );
+    } finally {
+      this.open = false;
+    }
     throw new TransactionRolledBack("Transaction rolled back.");
   }
 
@@ -49,4 +84,114 @@ export class GadgetTransaction {
     ]);
     this.open = false;
   }
+
+  /**
+   * Run the commit callbacks registered on this transaction if it was committed, or the rollback callbacks if it wasn't.
+   * Called once the transaction is no longer open for any code, so that API calls made by the callbacks aren't sent within it.
+   * @private
+   */
+  async finish(committed: boolean) {
+    const callbacks = committed ? this.commitCallbacks : this.rollbackCallbacks;
+    this.commitCallbacks = [];
+    this.rollbackCallbacks = [];
+    await runCallbacks(callbacks, committed ? "commit" : "rollback");
+  }
+
+  private assertOpen() {
+    if (!this.open) {
+      throw new Error("Can't register transaction callbacks on a transaction that isn't open");
+    }
+  }
+
+  /**
+   * Create a new transaction nested within this one, backed by a savepoint in the underlying database transaction.
+   * @private
+   */
+  nest(): GadgetNestedTransaction {
+    return new GadgetNestedTransaction(this, `gadget_savepoint_${++this.rootTransaction.savepointCount}`);
+  }
+
+  /** The outermost transaction, which owns the connection to the backend */
+  get rootTransaction(): GadgetTransaction {
+    return this;
+  }
+}
+
+/**
+ * Represents a transaction opened while another transaction was already open. Nested transactions are backed by savepoints, so they can be rolled back on their own without rolling back the transaction they are nested within.
+ **/
+export class GadgetNestedTransaction extends GadgetTransaction {
+  constructor(readonly parent: GadgetTransaction, readonly savepoint: string) {
+    super(parent.client, parent.subscriptionClient, parent.signal);
+  }
+
+  /** Shut down the outermost transaction by closing the connection to the backend. */
+  close() {
+    this.rootTransaction.close();
+  }
+
+  /** Explicitly roll back this nested transaction, discarding the changes made during it. The transaction this one is nested within stays open. */
+  async rollback() {
+    try {
+      assertOperationSuccess(
+        await this.client
+          .mutation(`mutation RollbackToSavepoint($name: String!) { internal { rollbackToSavepoint(name: $name) }}`, {
+            name: this.savepoint,
+          })
+          .toPromise(),
+        ["internal", "rollbackToSavepoint"]
+      );
+    } finally {
+      this.open = false;
+      // the transaction this one is nested within stays open, so run the rollback callbacks right away and forget the commit callbacks as they will never run
+      this.commitCallbacks = [];
+      await runCallbacks(this.rollbackCallbacks, "rollback");
+    }
+    throw new TransactionRolledBack("Nested transaction rolled back.");
+  }
+
+  /**
+   * @private
+   */
+  async start() {
+    assertOperationSuccess(
+      await this.client
+        .mutation(`mutation CreateSavepoint($name: String!) { internal { createSavepoint(name: $name) }}`, { name: this.savepoint })
+        .toPromise(),
+      ["internal", "createSavepoint"]
+    );
+    this.open = true;
+  }
+
+  /**
+   * @private
+   */
+  async commit() {
+    assertOperationSuccess(
+      await this.client
+        .mutation(`mutation ReleaseSavepoint($name: String!) { internal { releaseSavepoint(name: $name) }}`, { name: this.savepoint })
+        .toPromise(),
+      ["internal", "releaseSavepoint"]
+    );
+    this.open = false;
+    // the changes made in this nested transaction are only durable once the outer transaction commits, so hand the callbacks to it
+    this.parent.commitCallbacks.push(...this.commitCallbacks);
+    this.parent.rollbackCallbacks.push(...this.rollbackCallbacks);
+    this.commitCallbacks = [];
+    this.rollbackCallbacks = [];
+  }
+
+  get rootTransaction(): GadgetTransaction {
+    return this.parent.rootTransaction;
+  }
 }
+
+const runCallbacks = async (callbacks: TransactionCallback[], event: "commit" | "rollback") => {
+  for (const callback of callbacks.splice(0)) {
+    try {
+      await callback();
+    } catch (error) {
+      console.warn(`Encountered an error running a Gadget transaction ${event} callback. The error:`, error);
+    }
+  }
+};
@@ -1,6 +1,17 @@
 export interface BrowserStorage {
   getItem(key: string): string | null;
   setItem(key: string, value: string): void;
+  removeItem?(key: string): void;
+}
+
+/**
+ * A store for persisting the session token of the `browserSession` authentication mode, which can be asynchronous, like React Native's `AsyncStorage`, an IndexedDB store, or a cookie store.
+ * `window.localStorage`, `window.sessionStorage` and any other `BrowserStorage` are valid `SessionStorageAdapter`s too.
+ */
+export interface SessionStorageAdapter {
+  getItem(key: string): Promise<string | null> | string | null;
+  setItem(key: string, value: string): Promise<void> | void;
+  removeItem?(key: string): Promise<void> | void;
 }
 
 /**
@@ -16,4 +27,8 @@ export class InMemoryStorage implements BrowserStorage {
   setItem(key: string, value: string) {
     this.values[key] = value;
   }
+
+  removeItem(key: string) {
+    delete this.values[key];
+  }
 }
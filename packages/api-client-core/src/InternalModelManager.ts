@@ -2,9 +2,14 @@ import { Call, Var, compileWithVariableValues } from "tiny-graphql-query-compile
 import type { GadgetConnection } from "./GadgetConnection.js";
 import type { GadgetRecord, RecordShape } from "./GadgetRecord.js";
 import { GadgetRecordList } from "./GadgetRecordList.js";
+import type { DeletedRecords } from "./exchanges/normalizedCacheExchange.js";
+import { aggregateSelection } from "./operationBuilders.js";
+import type { GadgetError } from "./support.js";
 import {
   GadgetClientError,
+  GadgetErrorGroup,
   GadgetOperationError,
+  aggregateGroups,
   assert,
   assertMutationSuccess,
   assertNullableOperationSuccess,
@@ -15,7 +20,21 @@ import {
   hydrateRecord,
   hydrateRecordArray,
 } from "./support.js";
-import type { InternalFieldSelection, InternalFindListOptions, InternalFindManyOptions, InternalFindOneOptions } from "./types";
+import type {
+  AggregateGroup,
+  InternalAggregateOptions,
+  InternalBulkImportOptions,
+  InternalBulkUpsertOptions,
+  InternalCountOptions,
+  InternalExportOptions,
+  InternalFieldSelection,
+  InternalFindListOptions,
+  InternalFindManyOptions,
+  InternalFindOneOptions,
+  InternalUpsertOptions,
+  InternalUpsertResult,
+} from "./types";
+import { upsertOutcomeOf, upsertResultTypenames } from "./upsertOutcomes.js";
 
 const internalErrorsDetails = `
 fragment InternalErrorsDetails on ExecutionError {
@@ -86,7 +105,7 @@ export const internalFindFirstQuery = (apiIdentifier: string, options?: Internal
   });
 };
 
-export const internalFindManyQuery = (apiIdentifier: string, options?: InternalFindManyOptions) => {
+export const internalFindManyQuery = (apiIdentifier: string, options?: InternalFindManyOptions, hydrate = false) => {
   const capitalizedApiIdentifier = capitalizeIdentifier(apiIdentifier);
   const defaultVariables = internalFindListVariables(capitalizedApiIdentifier, options);
 
@@ -94,6 +113,7 @@ export const internalFindManyQuery = (apiIdentifier: string, options?: InternalF
     type: "query",
     name: `InternalFindMany${capitalizedApiIdentifier}`,
     fields: {
+      ...(hydrate && { gadgetMeta: { [`hydrations(modelName: "${apiIdentifier}")`]: true } }),
       internal: {
         [`list${capitalizedApiIdentifier}`]: Call(
           {
@@ -113,6 +133,36 @@ export const internalFindManyQuery = (apiIdentifier: string, options?: InternalF
   });
 };
 
+export const internalCountQuery = (apiIdentifier: string, options?: InternalCountOptions) => {
+  const capitalizedApiIdentifier = capitalizeIdentifier(apiIdentifier);
+  const { search, filter } = internalFindListVariables(capitalizedApiIdentifier, options);
+
+  return compileWithVariableValues({
+    type: "query",
+    name: `InternalCount${capitalizedApiIdentifier}`,
+    fields: {
+      internal: {
+        [`list${capitalizedApiIdentifier}`]: Call({ search, filter }, { count: true }),
+      },
+    },
+  });
+};
+
+export const internalAggregateQuery = (apiIdentifier: string, options?: InternalAggregateOptions) => {
+  const capitalizedApiIdentifier = capitalizeIdentifier(apiIdentifier);
+  const { search, filter } = internalFindListVariables(capitalizedApiIdentifier, options);
+
+  return compileWithVariableValues({
+    type: "query",
+    name: `InternalAggregate${capitalizedApiIdentifier}`,
+    fields: {
+      internal: {
+        [`list${capitalizedApiIdentifier}`]: Call({ search, filter }, aggregateSelection(options ?? {})),
+      },
+    },
+  });
+};
+
 export const internalCreateMutation = (apiIdentifier: string) => {
   const capitalizedApiIdentifier = capitalizeIdentifier(apiIdentifier);
   return `
@@ -175,6 +225,37 @@ export const internalUpdateMutation = (apiIdentifier: string) => {
   `;
 };
 
+export const internalUpsertMutation = (apiIdentifier: string) => {
+  const capitalizedApiIdentifier = capitalizeIdentifier(apiIdentifier);
+  const typenames = upsertResultTypenames(apiIdentifier, { internal: true });
+  return `
+    ${internalErrorsDetails}
+
+    mutation InternalUpsert${capitalizedApiIdentifier}($on: [String!], $record: Internal${capitalizedApiIdentifier}Input) {
+      ${internalHydrationPlan(apiIdentifier)}
+      internal {
+        upsert${capitalizedApiIdentifier}(on: $on, ${apiIdentifier}: $record) {
+          __typename
+          ... on ${typenames.created} {
+            success
+            errors {
+              ... InternalErrorsDetails
+            }
+            ${apiIdentifier}
+          }
+          ... on ${typenames.updated} {
+            success
+            errors {
+              ... InternalErrorsDetails
+            }
+            ${apiIdentifier}
+          }
+        }
+      }
+    }
+  `;
+};
+
 export const internalDeleteMutation = (apiIdentifier: string) => {
   const capitalizedApiIdentifier = capitalizeIdentifier(apiIdentifier);
   return `
@@ -216,9 +297,110 @@ export const internalDeleteManyMutation = (apiIdentifier: string) => {
   `;
 };
 
+export const internalImportAlias = (index: number) => `record${index}`;
+
+/**
+ * Builds a mutation that writes many records at once, using one aliased internal mutation field per record
+ **/
+const internalImportMutation = (
+  name: string,
+  apiIdentifier: string,
+  records: RecordData[],
+  upsert: boolean,
+  field: (record: RecordData, index: number) => { operation: string; args: Record<string, any> }
+) => {
+  let resultSelection: Record<string, any> = {
+    success: true,
+    errors: { "... InternalErrorsDetails": true },
+    [apiIdentifier]: true,
+  };
+  if (upsert) {
+    const typenames = upsertResultTypenames(apiIdentifier, { internal: true });
+    resultSelection = {
+      __typename: true,
+      [`... on ${typenames.created}`]: resultSelection,
+      [`... on ${typenames.updated}`]: resultSelection,
+    };
+  }
+
+  const internal: Record<string, any> = {};
+  records.forEach((record, index) => {
+    const { operation, args } = field(record, index);
+    internal[`${internalImportAlias(index)}: ${operation}`] = Call(args, resultSelection);
+  });
+
+  const plan = compileWithVariableValues({
+    type: "mutation",
+    name,
+    fields: {
+      gadgetMeta: { [`hydrations(modelName: "${apiIdentifier}")`]: true },
+      internal,
+    },
+  });
+
+  return { ...plan, query: `${internalErrorsDetails}\n${plan.query}` };
+};
+
+export const internalBulkUpsertMutation = (apiIdentifier: string, records: RecordData[], on?: string[]) => {
+  const capitalizedApiIdentifier = capitalizeIdentifier(apiIdentifier);
+  return internalImportMutation(`InternalBulkUpsert${capitalizedApiIdentifier}`, apiIdentifier, records, true, (record, index) => ({
+    operation: `upsert${capitalizedApiIdentifier}`,
+    args: {
+      [apiIdentifier]: Var({ name: `record${index}`, type: `Internal${capitalizedApiIdentifier}Input`, value: record }),
+      on: on ? Var({ name: `on${index}`, type: "[String!]", value: on }) : undefined,
+    },
+  }));
+};
+
+export const internalBulkUpdateMutation = (apiIdentifier: string, records: RecordData[]) => {
+  const capitalizedApiIdentifier = capitalizeIdentifier(apiIdentifier);
+  return internalImportMutation(
+    `InternalBulkUpdate${capitalizedApiIdentifier}`,
+    apiIdentifier,
+    records,
+    false,
+    ({ id, ...record }, index) => ({
+      operation: `update${capitalizedApiIdentifier}`,
+      args: {
+        id: Var({ name: `id${index}`, type: "GadgetID!", value: id }),
+        [apiIdentifier]: Var({ name: `record${index}`, type: `Internal${capitalizedApiIdentifier}Input`, value: record }),
+      },
+    })
+  );
+};
+
+const DEFAULT_IMPORT_CHUNK_SIZE = 100;
+const DEFAULT_IMPORT_CONCURRENCY = 4;
+
 /** The fields for a given record to send to the backend */
 export type RecordData = Record<string, any>;
 
+/** A row of a bulk import that was written to the backend */
+export interface InternalImportedRow {
+  /** The position of the row in the list of records given to the import */
+  index: number;
+  record: GadgetRecord<any>;
+}
+
+/** A row of a bulk import that failed to be written to the backend */
+export interface InternalFailedImportRow {
+  /** The position of the row in the list of records given to the import */
+  index: number;
+  /** The data given for the row */
+  input: RecordData;
+  /** Why the row failed, like an `InvalidRecordError` listing the fields that failed validation */
+  error: GadgetError;
+}
+
+/** The outcome of a bulk import, listing the rows that created, updated or failed to write a record in the order they were given */
+export interface InternalImportReport {
+  created: InternalImportedRow[];
+  updated: InternalImportedRow[];
+  failed: InternalFailedImportRow[];
+  /** A `GadgetErrorGroup` holding the error of each failed row and the records written for the rest, which can be thrown to fail on any error. Undefined when every row succeeded. */
+  errorGroup?: GadgetErrorGroup<GadgetRecord<any>>;
+}
+
 /**
  * Model specific manager for a given model's internal representation. Used to access the inner, raw data in the Gadget database. Use with caution -- it's easy to break stuff, and the Public API should be used when possible!
  */
@@ -304,6 +486,13 @@ export class InternalModelManager {
    * // returns the first page of published posts
    * const posts = await api.internal.post.findMany({ filter: { published: { equals: true }}});
    *
+   * @example
+   * // iterates over every published post, across all pages
+   * const published = await api.internal.post.findMany({ filter: { published: { equals: true }}});
+   * for await (const post of published.all()) {
+   *   console.log(post.id);
+   * }
+   *
    * @param options Options for the find operation, like sorts, filters, and pagination
    * @returns The record, if found, null otherwise
    */
@@ -316,6 +505,101 @@ export class InternalModelManager {
     return GadgetRecordList.boot(this, records, { options, pageInfo: connection.pageInfo });
   }
 
+  /**
+   * Count the records matching the given options
+   *
+   * @example
+   * // returns how many posts are published
+   * const count = await api.internal.post.count({ filter: { published: { equals: true }}});
+   *
+   * @param options Options for the count, like filters and search
+   * @returns The number of records matching the options
+   */
+  async count(options?: InternalCountOptions): Promise<number> {
+    const plan = internalCountQuery(this.apiIdentifier, options);
+    const response = await this.connection.currentClient.query(plan.query, plan.variables).toPromise();
+    return assertOperationSuccess(response, ["internal", `list${this.capitalizedApiIdentifier}`]).count;
+  }
+
+  /**
+   * Aggregate the records matching the given options into groups, summing, averaging or finding the smallest and largest values of fields within each group
+   *
+   * @example
+   * // returns the number of posts and their total and average word count for each author
+   * const groups = await api.internal.post.aggregate({ groupBy: ["authorId"], sum: ["wordCount"], avg: ["wordCount"] });
+   *
+   * @param options Options for the aggregation, like filters, the fields to group by and the fields to aggregate
+   * @returns One group for each distinct combination of values of the `groupBy` fields, or a single group if not grouping
+   */
+  async aggregate(options?: InternalAggregateOptions): Promise<AggregateGroup[]> {
+    const plan = internalAggregateQuery(this.apiIdentifier, options);
+    const response = await this.connection.currentClient.query(plan.query, plan.variables).toPromise();
+    return aggregateGroups(assertOperationSuccess(response, ["internal", `list${this.capitalizedApiIdentifier}`]).aggregate);
+  }
+
+  /**
+   * Export every record matching the given options as a stream of newline delimited JSON or CSV text. Pages through the records with cursors as the stream is read, and serializes dates and other hydrated values the same way `GadgetRecord.toJSON` does.
+   * In Node, the returned web `ReadableStream` can be turned into a `Readable` with `Readable.fromWeb`.
+   *
+   * CSV exports write the columns in their header row before any records, so unless the `columns` option is passed they are taken from the first page of records, and the export fails if a later record has a value for a column that isn't in the header.
+   *
+   * @example
+   * // writes every published post to a CSV file
+   * const stream = api.internal.post.export({ filter: { published: { equals: true }}, format: "csv" });
+   * await pipeline(Readable.fromWeb(stream), fs.createWriteStream("posts.csv"));
+   *
+   * @param options Options for the export, like sorts, filters, the fields to select and the format to export to
+   * @returns A stream of the serialized records
+   */
+  export(options?: InternalExportOptions): ReadableStream<string> {
+    const { format = "ndjson", pageSize = 250, columns: givenColumns, ...findOptions } = options ?? {};
+    const pages = this.exportPages({ ...findOptions, first: pageSize });
+    let columns = givenColumns;
+    let wroteHeader = false;
+    let writtenRows = 0;
+
+    return new ReadableStream<string>({
+      pull: async (controller) => {
+        const { value: records, done } = await pages.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        const rows = records.map((record) => record.toJSON());
+        if (format == "csv") {
+          const flattened = rows.map((row) => flattenRecord(row));
+          const header = (columns ??= csvColumns(flattened, formatInternalSelectVariable(findOptions.select)));
+          let chunk = "";
+          if (!wroteHeader && header.length > 0) chunk += csvRow(header);
+          wroteHeader = true;
+          for (const row of flattened) {
+            if (!givenColumns) assertCsvColumnsCover(header, row, writtenRows);
+            chunk += csvRow(header.map((column) => row[column]));
+            writtenRows++;
+          }
+          controller.enqueue(chunk);
+        } else {
+          controller.enqueue(rows.map((row) => JSON.stringify(row) + "\n").join(""));
+        }
+      },
+      cancel: async () => {
+        await pages.return(undefined);
+      },
+    });
+  }
+
+  private async *exportPages(options: InternalFindManyOptions): AsyncGenerator<GadgetRecord<any>[]> {
+    let after: string | null | undefined = undefined;
+    do {
+      const plan = internalFindManyQuery(this.apiIdentifier, { ...options, after }, true);
+      const response = await this.connection.currentClient.query(plan.query, plan.variables, { requestPolicy: "network-only" }).toPromise();
+      const connection = assertNullableOperationSuccess(response, ["internal", `list${this.capitalizedApiIdentifier}`]);
+      yield hydrateConnection(response, connection);
+      after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : undefined;
+    } while (after);
+  }
+
   /**
    * Find the first record matching the given options. Throws an error by default if no records matching the options are found.
    *
@@ -436,6 +720,139 @@ export class InternalModelManager {
     return hydrateRecord(response, result[this.apiIdentifier]);
   }
 
+  /**
+   * Creates a record, or updates the existing record matching it on the `on` fields, in the backend datastore for this model using the Internal API
+   *
+   * Does *not* run actions -- use the Public API for that.
+   *
+   * Returns the record along with whether it was created or updated, which comes from the result type the API returns for the upsert.
+   *
+   * @example
+   * // creates a user with this email, or updates the name of the user that already has it
+   * const { record: user, outcome } = await api.internal.user.upsert({ email: "jane@example.com", name: "Jane" }, { on: ["email"] });
+   * console.log(outcome); // "created" or "updated"
+   *
+   * @param record The data for the record to create or update
+   * @param options Options for the upsert, like the fields to match existing records on
+   * @returns The created or updated record, and which of the two happened
+   */
+  async upsert(record: RecordData, options?: InternalUpsertOptions): Promise<InternalUpsertResult> {
+    const response = await this.connection.currentClient
+      .mutation(internalUpsertMutation(this.apiIdentifier), {
+        on: options?.on,
+        record: this.getRecordFromData(record, "upsert"),
+      })
+      .toPromise();
+    const result = assertMutationSuccess(response, ["internal", `upsert${this.capitalizedApiIdentifier}`]);
+
+    return {
+      record: hydrateRecord(response, result[this.apiIdentifier]),
+      outcome: upsertOutcomeOf(result, this.apiIdentifier, { internal: true }),
+    };
+  }
+
+  /**
+   * Creates or updates many records in the backend datastore for this model using the Internal API, matching existing records on the `onConflict` fields
+   *
+   * Does *not* run actions -- use the Public API for that.
+   *
+   * Sends the records in chunks of `chunkSize`, running up to `concurrency` requests at once. Rows that fail don't stop the other rows from being written, and are listed in the returned report instead of throwing.
+   * Whether each row created or updated a record comes from the result type the API returns for it, and decides whether the row is listed in the report's `created` or `updated` rows.
+   *
+   * @example
+   * // creates or updates a user for each row, matching existing users by email
+   * const report = await api.internal.user.bulkUpsert(rows, { onConflict: ["email"], chunkSize: 50 });
+   * if (report.errorGroup) throw report.errorGroup;
+   *
+   * @param records The data for the records to create or update
+   * @param options Options for the import, like the fields to match existing records on and how many records to send at once
+   * @returns A report listing the rows that created, updated or failed to write a record
+   */
+  async bulkUpsert(records: RecordData[], options?: InternalBulkUpsertOptions): Promise<InternalImportReport> {
+    const data = records.map((record) => this.getRecordFromData(record, "bulkUpsert"));
+    return await this.bulkImport("bulkUpsert", data, options, (chunk) =>
+      internalBulkUpsertMutation(this.apiIdentifier, chunk, options?.onConflict)
+    );
+  }
+
+  /**
+   * Updates many existing records in the backend datastore for this model using the Internal API. Each record must include the `id` of the record to update.
+   *
+   * Does *not* run actions -- use the Public API for that.
+   *
+   * Sends the records in chunks of `chunkSize`, running up to `concurrency` requests at once. Rows that fail don't stop the other rows from being written, and are listed in the returned report instead of throwing.
+   *
+   * @example
+   * // unpublishes posts 10 and 11 in the database
+   * const report = await api.internal.post.bulkUpdate([{ id: "10", published: false }, { id: "11", published: false }]);
+   *
+   * @param records The data for the records to update, including their ids
+   * @param options Options for the import, like how many records to send at once
+   * @returns A report listing the rows that updated or failed to update a record
+   */
+  async bulkUpdate(records: RecordData[], options?: InternalBulkImportOptions): Promise<InternalImportReport> {
+    const recordsWithIds = records.map((record) => {
+      const data = this.getRecordFromData(record, "bulkUpdate");
+      assert(data.id, `Can't update a record without an ID passed`);
+      return data;
+    });
+    return await this.bulkImport("bulkUpdate", recordsWithIds, options, (chunk) => internalBulkUpdateMutation(this.apiIdentifier, chunk));
+  }
+
+  private async bulkImport(
+    functionName: "bulkUpsert" | "bulkUpdate",
+    records: RecordData[],
+    options: InternalBulkImportOptions | undefined,
+    mutationFor: (chunk: RecordData[]) => { query: string; variables: Record<string, any> }
+  ): Promise<InternalImportReport> {
+    const { chunkSize = DEFAULT_IMPORT_CHUNK_SIZE, concurrency = DEFAULT_IMPORT_CONCURRENCY } = options ?? {};
+    if (chunkSize < 1) throw new GadgetClientError(`Can't ${functionName} records with a chunkSize less than 1`);
+
+    const report: InternalImportReport = { created: [], updated: [], failed: [] };
+    const chunkStarts: number[] = [];
+    for (let start = 0; start < records.length; start += chunkSize) chunkStarts.push(start);
+
+    const importChunks = async () => {
+      for (let start = chunkStarts.shift(); start !== undefined; start = chunkStarts.shift()) {
+        const chunk = records.slice(start, start + chunkSize);
+        const plan = mutationFor(chunk);
+        const response = await this.connection.currentClient.mutation(plan.query, plan.variables).toPromise();
+
+        chunk.forEach((input, offset) => {
+          const index = start! + offset;
+          try {
+            const result = assertMutationSuccess(response, ["internal", internalImportAlias(offset)]);
+            const row = { index, record: hydrateRecord(response, result[this.apiIdentifier]) };
+            if (functionName == "bulkUpsert") {
+              report[upsertOutcomeOf(result, this.apiIdentifier, { internal: true })].push(row);
+            } else {
+              report.updated.push(row);
+            }
+          } catch (error: any) {
+            report.failed.push({ index, input, error });
+          }
+        });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), chunkStarts.length) }, importChunks));
+
+    const byIndex = (a: { index: number }, b: { index: number }) => a.index - b.index;
+    report.created.sort(byIndex);
+    report.updated.sort(byIndex);
+    report.failed.sort(byIndex);
+    if (report.failed.length > 0) {
+      const written = [...report.created, ...report.updated].sort(byIndex).map((row) => row.record);
+      report.errorGroup = new GadgetErrorGroup(
+        report.failed.map((row) => row.error),
+        written,
+        report.failed.map((row) => row.index)
+      );
+    }
+
+    return report;
+  }
+
   /**
    * Deletes an existing record in the backend datastore for this model using the Internal API
    *
@@ -449,8 +866,12 @@ export class InternalModelManager {
    */
   async delete(id: string): Promise<void> {
     assert(id, `Can't delete a record without an ID`);
-    const response = await this.connection.currentClient.mutation(internalDeleteMutation(this.apiIdentifier), { id }).toPromise();
-    assertMutationSuccess(response, ["internal", `delete${this.capitalizedApiIdentifier}`]);
+    const dataPath = ["internal", `delete${this.capitalizedApiIdentifier}`];
+    const deletedRecords: DeletedRecords = { typename: this.capitalizedApiIdentifier, ids: [id], dataPath };
+    const response = await this.connection.currentClient
+      .mutation(internalDeleteMutation(this.apiIdentifier), { id }, { deletedRecords })
+      .toPromise();
+    assertMutationSuccess(response, dataPath);
   }
 
   /**
@@ -465,8 +886,12 @@ export class InternalModelManager {
    * @param options Search and filter options for the records to delete
    */
   async deleteMany(options?: { search?: string; filter?: RecordData }): Promise<void> {
-    const response = await this.connection.currentClient.mutation(internalDeleteManyMutation(this.apiIdentifier), options).toPromise();
-    assertMutationSuccess(response, ["internal", `deleteMany${this.capitalizedApiIdentifier}`]);
+    const dataPath = ["internal", `deleteMany${this.capitalizedApiIdentifier}`];
+    const deletedRecords: DeletedRecords = { typename: this.capitalizedApiIdentifier, dataPath };
+    const response = await this.connection.currentClient
+      .mutation(internalDeleteManyMutation(this.apiIdentifier), options, { deletedRecords })
+      .toPromise();
+    assertMutationSuccess(response, dataPath);
   }
 }
 
@@ -481,3 +906,59 @@ function formatInternalSelectVariable(select: InternalFieldSelection | undefined
   }
   return result;
 }
+
+/** Flatten nested objects within a record into one object keyed by dot separated paths, like `author.name` */
+function flattenRecord(value: Record<string, any>, prefix = "", flattened: Record<string, any> = {}): Record<string, any> {
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const path = prefix + key;
+    if (fieldValue && typeof fieldValue == "object" && !Array.isArray(fieldValue)) {
+      flattenRecord(fieldValue, path + ".", flattened);
+    } else {
+      flattened[path] = fieldValue;
+    }
+  }
+  return flattened;
+}
+
+/** Get the columns for a CSV export from the first page of flattened records, ordering them by the selected fields if a selection was given, or using the selected fields if there are no records */
+function csvColumns(rows: Record<string, any>[], selected: string[] | undefined): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const column of Object.keys(row)) columns.add(column);
+  }
+  // a field that is null in some records and an object in others only needs the columns for the object's fields
+  for (const column of columns) {
+    if ([...columns].some((other) => other.startsWith(column + "."))) columns.delete(column);
+  }
+  if (!selected) return [...columns];
+  if (columns.size == 0) return selected;
+
+  const selectedIndex = (column: string) => {
+    const index = selected.indexOf(column.split(".")[0]);
+    return index == -1 ? selected.length : index;
+  };
+  return [...columns].sort((a, b) => selectedIndex(a) - selectedIndex(b));
+}
+
+/** Throw if a flattened record has a value that none of the CSV columns would hold, instead of silently leaving it out of the export */
+function assertCsvColumnsCover(columns: string[], row: Record<string, any>, index: number) {
+  for (const [column, value] of Object.entries(row)) {
+    if (value != null && !columns.includes(column)) {
+      throw new GadgetClientError(
+        `Record ${index} of the CSV export has a value for \`${column}\`, which isn't one of the columns found in the first page of records. Pass the \`columns\` option to choose the columns to export up front.`
+      );
+    }
+  }
+}
+
+function csvRow(values: unknown[]): string {
+  return (
+    values
+      .map((value) => {
+        if (value == null) return "";
+        const text = typeof value == "object" ? JSON.stringify(value) : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",") + "\r\n"
+  );
+}
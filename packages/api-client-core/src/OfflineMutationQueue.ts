@@ -0,0 +1,298 @@
+import type { Client, CombinedError, Exchange, Operation, OperationResult } from "@urql/core";
+import { stringifyDocument } from "@urql/core";
+import type { SelectionSetNode } from "graphql";
+import { onPush, pipe } from "wonka";
+import type { SessionStorageAdapter } from "./InMemoryStorage.js";
+import { InMemoryStorage } from "./InMemoryStorage.js";
+
+const DEFAULT_STORAGE_KEY = "gadget-offline-mutations";
+
+// the mutation fields of the actions Gadget adds to the user model for authentication, like `signInUser`, whose variables hold passwords and tokens
+const AUTH_ACTION_FIELD = /^(signIn|signUp|signOut|changePassword|resetPassword|sendResetPassword|verifyEmail|sendVerifyEmail)[A-Z]/;
+
+/** A mutation that failed because the Gadget API couldn't be reached, saved to be sent again later */
+export interface QueuedMutation {
+  /** Identifies this mutation within the queue */
+  id: string;
+  /** The GraphQL document of the mutation */
+  query: string;
+  variables: Record<string, any>;
+  operationName?: string;
+  /** When the mutation was first attempted, as a millisecond timestamp */
+  queuedAt: number;
+}
+
+/** A snapshot of the mutations waiting in an `OfflineMutationQueue` */
+export interface OfflineMutationQueueState {
+  /** The mutations waiting to be replayed, oldest first */
+  pending: QueuedMutation[];
+  /** If the queue is currently replaying mutations */
+  replaying: boolean;
+}
+
+/** A queued mutation that the Gadget API rejected when it was replayed */
+export interface OfflineMutationConflict {
+  mutation: QueuedMutation;
+  /** The result of the replayed mutation, which holds the error or unsuccessful action result the Gadget API responded with */
+  result: OperationResult;
+}
+
+/** The events an `OfflineMutationQueue` emits, and the arguments their listeners are called with */
+export interface OfflineMutationQueueEvents {
+  /** The mutations in the queue changed, or the queue started or stopped replaying */
+  change: (state: OfflineMutationQueueState) => void;
+  /** A mutation failed because the Gadget API couldn't be reached, and was added to the queue */
+  queued: (mutation: QueuedMutation) => void;
+  /** A queued mutation was sent successfully, and removed from the queue */
+  replayed: (mutation: QueuedMutation, result: OperationResult) => void;
+  /** A queued mutation was rejected by the Gadget API when it was replayed, and removed from the queue */
+  conflict: (conflict: OfflineMutationConflict) => void;
+}
+
+/**
+ * Options for governing which mutations are queued while offline and where they are kept
+ */
+export interface OfflineMutationQueueOptions {
+  /** Where to persist queued mutations so they survive page reloads. Can be any `BrowserStorage` like `window.localStorage`, or an asynchronous store. Defaults to an in memory store. */
+  storage?: SessionStorageAdapter;
+  /** The key queued mutations are stored under. Default is `"gadget-offline-mutations"`. */
+  storageKey?: string;
+  /**
+   * Decide if a mutation that failed with the given error should be queued to be replayed later. Defaults to `isOfflineMutationError`, which queues mutations that failed because the Gadget API couldn't be reached.
+   */
+  shouldQueue?: (error: CombinedError, operation: Operation) => boolean;
+  /** Replay queued mutations as soon as the browser comes back online, and when the queue is first connected to a client. Default is true. */
+  replayOnReconnect?: boolean;
+  /**
+   * Prepare a mutation to be queued before it is persisted to the storage, like to leave out variables that shouldn't be stored. Return `null` to not queue the mutation at all.
+   * Defaults to queueing every mutation as is.
+   */
+  serialize?: (mutation: QueuedMutation, operation: Operation) => QueuedMutation | null;
+}
+
+type Listeners = { [Event in keyof OfflineMutationQueueEvents]: Set<OfflineMutationQueueEvents[Event]> };
+
+const fieldNamesOf = (selectionSet: SelectionSetNode | undefined): string[] =>
+  selectionSet?.selections.flatMap((selection) => (selection.kind == "Field" ? [selection.name.value] : [])) ?? [];
+
+/**
+ * Returns true if a mutation runs one of the authentication actions of the user model, like `signIn` or `changePassword`, directly or within a namespace
+ */
+export const isAuthActionMutation = (operation: Operation): boolean =>
+  operation.query.definitions.some((definition) => {
+    if (definition.kind != "OperationDefinition" || definition.operation != "mutation") return false;
+    return definition.selectionSet.selections.some(
+      (selection) =>
+        selection.kind == "Field" &&
+        [selection.name.value, ...fieldNamesOf(selection.selectionSet)].some((fieldName) => AUTH_ACTION_FIELD.test(fieldName))
+    );
+  });
+
+/**
+ * Returns true if a mutation failed because the request never got a response from the Gadget API, like when the device is offline.
+ * Mutations made within transactions, mutations that pass `{ offlineQueue: false }` in their operation context, and authentication actions, whose variables hold credentials, are never queued.
+ */
+export const isOfflineMutationError = (error: CombinedError, operation: Operation): boolean => {
+  if (operation.kind != "mutation" || operation.context.transactional || operation.context.offlineQueue === false) return false;
+  if (isAuthActionMutation(operation)) return false;
+  return !!error.networkError && !error.response;
+};
+
+/** Returns true if a mutation result holds a Gadget action result that wasn't successful, like one with validation errors */
+const isUnsuccessfulActionResult = (data: any, depth = 0): boolean => {
+  if (!data || typeof data != "object" || depth > 2) return false;
+  if (data.success === false) return true;
+  return Object.values(data).some((value) => isUnsuccessfulActionResult(value, depth + 1));
+};
+
+const isOnline = () => typeof navigator == "undefined" || navigator.onLine !== false;
+
+let queuedMutationCount = 0;
+
+/**
+ * Saves mutations that fail because the Gadget API couldn't be reached to a store, and sends them again in the order they were made once the Gadget API can be reached again.
+ * Mutations that fail while offline still report their network error to whoever made them. They are replayed in the background, and the outcome is reported through this queue's events.
+ *
+ * @example
+ * const queue = new OfflineMutationQueue({ storage: window.localStorage });
+ * const api = new Client({ exchanges: { beforeAsync: [queue.exchange] } });
+ * queue.on("conflict", ({ mutation, result }) => console.error("couldn't save offline change", mutation, result.error));
+ */
+export class OfflineMutationQueue {
+  private storage: SessionStorageAdapter;
+  private storageKey: string;
+  private shouldQueue: (error: CombinedError, operation: Operation) => boolean;
+  private replayOnReconnect: boolean;
+  private serialize: (mutation: QueuedMutation, operation: Operation) => QueuedMutation | null;
+
+  private pending: QueuedMutation[] = [];
+  private replaying = false;
+  private client?: Client;
+  private listeners: Listeners = { change: new Set(), queued: new Set(), replayed: new Set(), conflict: new Set() };
+  // reads and writes to the storage are chained so they happen in order, even if the storage is async
+  private ready: Promise<void>;
+  private persisted: Promise<void> = Promise.resolve();
+
+  constructor(options: OfflineMutationQueueOptions = {}) {
+    this.storage = options.storage ?? new InMemoryStorage();
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.shouldQueue = options.shouldQueue ?? isOfflineMutationError;
+    this.replayOnReconnect = options.replayOnReconnect ?? true;
+    this.serialize = options.serialize ?? ((mutation) => mutation);
+    this.ready = this.load();
+
+    if (this.replayOnReconnect && typeof window != "undefined") {
+      window.addEventListener?.("online", this.handleOnline);
+    }
+  }
+
+  /**
+   * urql exchange that queues failed mutations. Pass it in the `beforeAsync` exchanges of a Gadget client to queue the mutations that client makes.
+   */
+  exchange: Exchange = ({ client, forward }) => {
+    if (!this.client) {
+      this.client = client;
+      if (this.replayOnReconnect) {
+        void this.ready.then(() => {
+          if (this.pending.length > 0 && isOnline()) void this.replay();
+        });
+      }
+    }
+
+    return (operations$) =>
+      pipe(
+        operations$,
+        onPush((operation) => {
+          // replay through whichever client most recently made an operation outside of a transaction, as the connection replaces its client when resetting it, and transaction clients go away with their transaction
+          if (!operation.context.transactional) this.client = client;
+        }),
+        forward,
+        onPush((result) => {
+          const { error, operation } = result;
+          // replayed mutations are already in the queue, so don't queue them again
+          if (error && !operation.context.offlineReplay && this.shouldQueue(error, operation)) {
+            void this.enqueue(operation);
+          }
+        })
+      );
+  };
+
+  /** The mutations currently waiting to be replayed, and if they are being replayed right now */
+  get state(): OfflineMutationQueueState {
+    return { pending: [...this.pending], replaying: this.replaying };
+  }
+
+  /**
+   * Register a listener for one of this queue's events. Returns a function that unregisters the listener.
+   */
+  on<Event extends keyof OfflineMutationQueueEvents>(event: Event, listener: OfflineMutationQueueEvents[Event]) {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  /**
+   * Send the queued mutations again, one at a time in the order they were made. Stops early if the Gadget API still can't be reached, leaving the rest of the queue in place to be replayed later.
+   */
+  async replay() {
+    if (this.replaying || !this.client) return;
+    this.replaying = true;
+
+    try {
+      await this.ready;
+      this.emit("change", this.state);
+
+      while (this.pending.length > 0) {
+        const mutation = this.pending[0];
+        const result = await this.client
+          .mutation(mutation.query, mutation.variables, { offlineReplay: mutation.id, requestPolicy: "network-only" })
+          .toPromise();
+
+        if (result.error && this.shouldQueue(result.error, result.operation)) break;
+
+        this.pending.shift();
+        this.persist();
+        if (result.error || isUnsuccessfulActionResult(result.data)) {
+          this.emit("conflict", { mutation, result });
+        } else {
+          this.emit("replayed", mutation, result);
+        }
+        this.emit("change", this.state);
+      }
+    } finally {
+      this.replaying = false;
+      this.emit("change", this.state);
+    }
+  }
+
+  /** Forget all the queued mutations without replaying them */
+  async clear() {
+    await this.ready;
+    this.pending = [];
+    this.persist();
+    this.emit("change", this.state);
+    await this.persisted;
+  }
+
+  /** Stop listening for the browser coming back online */
+  dispose() {
+    if (typeof window != "undefined") {
+      window.removeEventListener?.("online", this.handleOnline);
+    }
+  }
+
+  private handleOnline = () => {
+    void this.replay();
+  };
+
+  private async enqueue(operation: Operation) {
+    await this.ready;
+    const mutation = this.serialize(
+      {
+        id: `${Date.now().toString(36)}-${(queuedMutationCount += 1)}`,
+        query: stringifyDocument(operation.query),
+        variables: operation.variables ?? {},
+        operationName: operation.context.operationName,
+        queuedAt: Date.now(),
+      },
+      operation
+    );
+    if (!mutation) return;
+
+    this.pending.push(mutation);
+    this.persist();
+    this.emit("queued", mutation);
+    this.emit("change", this.state);
+  }
+
+  private async load() {
+    try {
+      const stored = await this.storage.getItem(this.storageKey);
+      if (stored) this.pending = JSON.parse(stored);
+    } catch (error) {
+      console.warn("Encountered an error reading queued offline mutations from storage. The error:", error);
+    }
+  }
+
+  private persist() {
+    const serialized = JSON.stringify(this.pending);
+    this.persisted = this.persisted.then(async () => {
+      try {
+        await this.storage.setItem(this.storageKey, serialized);
+      } catch (error) {
+        console.warn("Encountered an error writing queued offline mutations to storage. The error:", error);
+      }
+    });
+  }
+
+  private emit<Event extends keyof OfflineMutationQueueEvents>(event: Event, ...args: Parameters<OfflineMutationQueueEvents[Event]>) {
+    for (const listener of this.listeners[event]) {
+      try {
+        (listener as (...args: any[]) => void)(...args);
+      } catch (error) {
+        console.warn(`Encountered an error in an offline mutation queue ${event} listener. The error:`, error);
+      }
+    }
+  }
+}
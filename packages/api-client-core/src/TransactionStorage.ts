@@ -0,0 +1,92 @@
+import type { GadgetTransaction } from "./GadgetTransaction.js";
+
+/**
+ * Tracks which transaction is open for the code that is currently running, so that operations made within a transaction callback are sent within that transaction.
+ * Matches the interface of node's `AsyncLocalStorage`, so an `AsyncLocalStorage` instance can be used as a `TransactionStorage`.
+ */
+export interface TransactionStorage {
+  /** Get the transaction open for the code that is currently running, if any */
+  getStore(): GadgetTransaction | undefined;
+  /** Run a callback with the given transaction open for it and any async work it starts */
+  run<R>(transaction: GadgetTransaction | undefined, callback: () => R): R;
+}
+
+/** A class compatible with node's `AsyncLocalStorage`, like `AsyncLocalStorage` itself */
+export type AsyncLocalStorageClass = new () => TransactionStorage;
+
+/**
+ * Find the `AsyncLocalStorage` class of the current runtime without importing `node:async_hooks`, so that bundlers building this package for the browser don't need to resolve it.
+ * Some runtimes expose it globally, and node 20.16 and later can look it up with `process.getBuiltinModule`.
+ */
+const findAsyncLocalStorage = (): AsyncLocalStorageClass | undefined => {
+  const global = globalThis as any;
+  return global.AsyncLocalStorage ?? global.process?.getBuiltinModule?.("node:async_hooks")?.AsyncLocalStorage;
+};
+
+/**
+ * Stores one transaction for all the code using a connection, for runtimes that don't support tracking context across async call chains.
+ * Transactions started while another is open join the open one as a nested transaction, so concurrent transactions on the same connection aren't isolated from each other.
+ */
+export class SingleSlotTransactionStorage implements TransactionStorage {
+  private transaction?: GadgetTransaction;
+
+  getStore() {
+    return this.transaction;
+  }
+
+  run<R>(transaction: GadgetTransaction | undefined, callback: () => R): R {
+    const previous = this.transaction;
+    this.transaction = transaction;
+
+    let result: R;
+    try {
+      result = callback();
+    } catch (error) {
+      this.transaction = previous;
+      throw error;
+    }
+
+    if (result && typeof (result as any).finally == "function") {
+      return (result as unknown as Promise<unknown>).finally(() => {
+        this.transaction = previous;
+      }) as R;
+    }
+
+    this.transaction = previous;
+    return result;
+  }
+}
+
+/**
+ * Stores transactions in node's `AsyncLocalStorage` so that each async call chain gets its own transaction.
+ * Pass the `AsyncLocalStorage` class to use it in runtimes where it can't be found on its own, like node versions before 20.16:
+ *
+ * @example
+ * import { AsyncLocalStorage } from "node:async_hooks";
+ * const api = new Client({ transactionStorage: new AsyncLocalTransactionStorage(AsyncLocalStorage) });
+ *
+ * Stores one transaction at a time like `SingleSlotTransactionStorage` when no `AsyncLocalStorage` is available.
+ */
+export class AsyncLocalTransactionStorage implements TransactionStorage {
+  private storage: TransactionStorage;
+
+  constructor(AsyncLocalStorage: AsyncLocalStorageClass | undefined = findAsyncLocalStorage()) {
+    this.storage = AsyncLocalStorage ? new AsyncLocalStorage() : new SingleSlotTransactionStorage();
+  }
+
+  getStore() {
+    return this.storage.getStore();
+  }
+
+  run<R>(transaction: GadgetTransaction | undefined, callback: () => R): R {
+    return this.storage.run(transaction, callback);
+  }
+}
+
+/**
+ * Create the best available `TransactionStorage` for the current runtime. Uses `AsyncLocalStorage` where the runtime provides it so that each async call chain gets its own transaction, and falls back to storing one transaction per connection elsewhere.
+ */
+export const defaultTransactionStorage = (): TransactionStorage => {
+  const AsyncLocalStorage = findAsyncLocalStorage();
+  return AsyncLocalStorage ? new AsyncLocalTransactionStorage(AsyncLocalStorage) : new SingleSlotTransactionStorage();
+};
@@ -0,0 +1,180 @@
+import type { Exchange, Operation, OperationResult } from "@urql/core";
+import { makeErrorResult, makeResult, stringifyDocument } from "@urql/core";
+import type { Source } from "wonka";
+import { filter, makeSubject, merge, onPush, pipe, share } from "wonka";
+
+const DEFAULT_MAX_BATCH_SIZE = 10;
+const DEFAULT_MAX_BATCH_DELAY = 0;
+
+/**
+ * Options for governing how concurrent GraphQL queries are batched together into one HTTP request
+ */
+export interface BatchExchangeOptions {
+  /** The most distinct queries to send in one HTTP request. Once a batch is this big, it is sent right away. Default is 10. */
+  maxBatchSize?: number;
+  /** How long to wait for more queries to batch together after the first one is issued, in milliseconds. Default is 0, which batches queries issued in the same tick. */
+  maxDelayMs?: number;
+}
+
+/** A group of queries waiting to be sent together */
+interface PendingBatch {
+  url: string;
+  fetchOptions: RequestInit;
+  // queries with the same key are only sent once, and all share the one result
+  operations: Map<number, Operation[]>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** Persisted queries that may be sent with `GET` are sent on their own, as only a single query's `GET` request can be cached by CDNs and browsers */
+const isPersistedGet = (operation: Operation) => !!operation.extensions?.persistedQuery && !!operation.context.preferGetMethod;
+
+const isBatchable = (operation: Operation) => operation.kind == "query" && operation.context.batch !== false && !isPersistedGet(operation);
+
+const fetchOptionsFor = (operation: Operation): RequestInit => {
+  const fetchOptions = operation.context.fetchOptions;
+  return (typeof fetchOptions == "function" ? fetchOptions() : fetchOptions) ?? {};
+};
+
+/** The URL to send a batch to, with the `operation` param listing the names of all the operations in the batch instead of just one */
+const batchURL = (url: string, operations: Operation[]) => {
+  const names = operations.map((operation) => operation.context.operationName).filter(Boolean);
+  try {
+    const [start, params] = url.split("?");
+    const paramsObj = new URLSearchParams(params);
+    if (names.length > 0) {
+      paramsObj.set("operation", names.join(","));
+    } else {
+      paramsObj.delete("operation");
+    }
+    const query = paramsObj.toString();
+    return query ? `${start}?${query}` : start;
+  } catch (error) {
+    return url;
+  }
+};
+
+/** Build the JSON body that urql's fetch exchange would send for an operation on its own, for the operation's entry in a batch */
+const fetchBodyFor = (operation: Operation) => {
+  const persistedQuery = operation.extensions?.persistedQuery;
+  const definition = operation.query.definitions.find((definition) => definition.kind == "OperationDefinition");
+  return {
+    // persisted queries are sent without their document unless the server didn't recognize their hash
+    query: persistedQuery && !persistedQuery.miss ? undefined : stringifyDocument(operation.query),
+    operationName: definition?.kind == "OperationDefinition" ? definition.name?.value : undefined,
+    variables: operation.variables || undefined,
+    extensions: operation.extensions,
+  };
+};
+
+/**
+ * urql exchange that merges concurrent GraphQL queries into one HTTP request with a JSON array body, and splits the array of results in the response back out to each query.
+ * Mutations, persisted queries that may be sent with `GET`, and queries that pass `{ batch: false }` in their operation context are sent on their own as normal. Each batched query keeps its `extensions`, like a persisted query's hash, in its entry of the batch.
+ */
+export const batchExchange =
+  (options: BatchExchangeOptions = {}): Exchange =>
+  ({ forward }) =>
+  (operations$) => {
+    const maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    const maxDelay = options.maxDelayMs ?? DEFAULT_MAX_BATCH_DELAY;
+
+    const sharedOperations$ = share(operations$);
+    const { source: results$, next: emitResult } = makeSubject<OperationResult>();
+    const pending = new Map<string, PendingBatch>();
+    const active = new Set<number>();
+
+    const send = async (batch: PendingBatch) => {
+      const groups = [...batch.operations.values()];
+      const representatives = groups.map((group) => group[0]);
+      const emit = (index: number, makeOperationResult: (operation: Operation) => OperationResult) => {
+        for (const operation of groups[index]) {
+          if (active.has(operation.key)) {
+            active.delete(operation.key);
+            emitResult(makeOperationResult(operation));
+          }
+        }
+      };
+
+      let response: Response | undefined;
+      try {
+        const fetch = representatives[0].context.fetch ?? globalThis.fetch;
+        response = await fetch(batchURL(batch.url, representatives), {
+          ...batch.fetchOptions,
+          method: "POST",
+          body: JSON.stringify(representatives.map(fetchBodyFor)),
+          headers: {
+            accept: "application/json",
+            "content-type": "application/json",
+            ...(batch.fetchOptions.headers as Record<string, string> | undefined),
+          },
+        });
+
+        const body = await response.json();
+        if (!Array.isArray(body) || body.length != representatives.length) {
+          throw new Error(response.ok ? "Batched GraphQL response didn't contain one result for each operation" : response.statusText);
+        }
+
+        body.forEach((result, index) => emit(index, (operation) => makeResult(operation, result, response)));
+      } catch (error: any) {
+        groups.forEach((_group, index) => emit(index, (operation) => makeErrorResult(operation, error, response)));
+      }
+    };
+
+    const flush = (key: string) => {
+      const batch = pending.get(key);
+      if (!batch) return;
+      pending.delete(key);
+      if (batch.timer) clearTimeout(batch.timer);
+      if (batch.operations.size > 0) void send(batch);
+    };
+
+    const enqueue = (operation: Operation) => {
+      const url = batchURL(operation.context.url, []);
+      const fetchOptions = fetchOptionsFor(operation);
+      // only operations headed to the same place with the same options can be sent together
+      const key = `${url}:${JSON.stringify(fetchOptions)}`;
+
+      let batch = pending.get(key);
+      if (!batch) {
+        batch = { url, fetchOptions, operations: new Map() };
+        batch.timer = setTimeout(() => flush(key), maxDelay);
+        pending.set(key, batch);
+      }
+
+      active.add(operation.key);
+      const group = batch.operations.get(operation.key);
+      if (group) {
+        group.push(operation);
+      } else {
+        batch.operations.set(operation.key, [operation]);
+      }
+
+      if (batch.operations.size >= maxBatchSize) flush(key);
+    };
+
+    const teardown = (operation: Operation) => {
+      active.delete(operation.key);
+      for (const batch of pending.values()) {
+        batch.operations.delete(operation.key);
+      }
+    };
+
+    const batched$: Source<OperationResult> = pipe(
+      sharedOperations$,
+      onPush((operation) => {
+        if (operation.kind == "teardown") {
+          teardown(operation);
+        } else if (isBatchable(operation)) {
+          enqueue(operation);
+        }
+      }),
+      filter((_operation): _operation is never => false)
+    );
+
+    const forwarded$ = pipe(
+      sharedOperations$,
+      filter((operation) => !isBatchable(operation)),
+      forward
+    );
+
+    return merge<OperationResult>([batched$, results$, forwarded$]);
+  };
@@ -0,0 +1,33 @@
+import type { Exchange, Operation } from "@urql/core";
+import { makeErrorResult } from "@urql/core";
+import { filter, map, merge, pipe, share } from "wonka";
+import { GadgetClientError } from "../support.js";
+
+/** Fails operations made within a transaction once the given signal is aborted, instead of sending them over a connection the transaction has already finished with */
+export const finishedTransactionExchange =
+  (finished: AbortSignal): Exchange =>
+  ({ forward }) =>
+  (operations$) => {
+    const sharedOperations$ = share(operations$);
+    const isRejected = (operation: Operation) => finished.aborted && operation.kind != "teardown";
+
+    const rejected$ = pipe(
+      sharedOperations$,
+      filter(isRejected),
+      map((operation) =>
+        makeErrorResult(
+          operation,
+          new GadgetClientError("Can't send operations within a Gadget transaction that has already been committed or rolled back")
+        )
+      )
+    );
+
+    const forwarded$ = forward(
+      pipe(
+        sharedOperations$,
+        filter((operation) => !isRejected(operation))
+      )
+    );
+
+    return merge([rejected$, forwarded$]);
+  };
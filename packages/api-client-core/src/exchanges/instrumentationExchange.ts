@@ -0,0 +1,107 @@
+import type { CombinedError, Exchange, Operation, OperationResult } from "@urql/core";
+import { onPush, pipe } from "wonka";
+
+/** Describes a GraphQL operation a connection started sending to the Gadget API */
+export interface OperationStartEvent {
+  /** The name of the operation, like `GetWidget` or the first field selected by an anonymous operation */
+  operationName: string;
+  kind: "query" | "mutation" | "subscription";
+  variables: Record<string, any>;
+  /** When the operation started, as a millisecond timestamp */
+  startedAt: number;
+  operation: Operation;
+}
+
+/** Describes a GraphQL operation that a connection got a result for from the Gadget API */
+export interface OperationEndEvent extends OperationStartEvent {
+  /** How long it took to get the result, in milliseconds */
+  durationMs: number;
+  /** The length of the result's data when serialized as JSON */
+  resultSize: number;
+  /** The code of the first error the operation failed with, either from a GraphQL error or from an unsuccessful action result, like `GGT_INVALID_RECORD`. Network errors have no code, see `error` for those. */
+  errorCode?: string;
+  error?: CombinedError;
+  result: OperationResult;
+}
+
+/** The listeners to notify of operations passing through an `instrumentationExchange` */
+export interface OperationListeners {
+  start: Set<(event: OperationStartEvent) => void>;
+  end: Set<(event: OperationEndEvent) => void>;
+}
+
+const now = () => globalThis.performance?.now() ?? Date.now();
+
+/** Find the code of the first error in an unsuccessful action result within the given data */
+const actionErrorCode = (data: any, depth = 0): string | undefined => {
+  if (!data || typeof data != "object" || depth > 2) return;
+  if (data.success === false) return data.errors?.[0]?.code ?? "GGT_UNKNOWN";
+  for (const value of Object.values(data)) {
+    const code = actionErrorCode(value, depth + 1);
+    if (code) return code;
+  }
+};
+
+const errorCodeFor = (result: OperationResult): string | undefined => {
+  const code = result.error?.graphQLErrors.find((error) => error.extensions?.code)?.extensions.code;
+  if (code) return String(code);
+  return actionErrorCode(result.data);
+};
+
+const notify = <Event>(listeners: Set<(event: Event) => void>, event: Event) => {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.warn("Encountered an error in a Gadget operation instrumentation listener. The error:", error);
+    }
+  }
+};
+
+/**
+ * urql exchange that notifies listeners when operations are sent and when their results arrive, with the operation's name, how long it took, how big the result was, and the code of any error it failed with.
+ * Operations that deliver many results, like subscriptions and live queries, end when their first result arrives.
+ */
+export const instrumentationExchange =
+  (listeners: OperationListeners): Exchange =>
+  ({ forward }) =>
+  (operations$) => {
+    const started = new Map<number, { event: OperationStartEvent; startedAtTime: number }>();
+
+    return pipe(
+      operations$,
+      onPush((operation) => {
+        if (operation.kind == "teardown") {
+          started.delete(operation.key);
+          return;
+        }
+        if (listeners.start.size == 0 && listeners.end.size == 0) return;
+
+        const event: OperationStartEvent = {
+          operationName: operation.context.operationName ?? "unknown",
+          kind: operation.kind,
+          variables: operation.variables ?? {},
+          startedAt: Date.now(),
+          operation,
+        };
+        started.set(operation.key, { event, startedAtTime: now() });
+        notify(listeners.start, event);
+      }),
+      forward,
+      onPush((result) => {
+        const start = started.get(result.operation.key);
+        if (!start) return;
+        started.delete(result.operation.key);
+        if (listeners.end.size == 0) return;
+
+        notify(listeners.end, {
+          ...start.event,
+          durationMs: now() - start.startedAtTime,
+          resultSize: result.data === undefined ? 0 : JSON.stringify(result.data).length,
+          errorCode: errorCodeFor(result),
+          error: result.error,
+          result,
+        });
+      })
+    );
+  };
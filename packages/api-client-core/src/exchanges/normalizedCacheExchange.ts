@@ -0,0 +1,576 @@
+import type { Exchange, Operation, OperationResult } from "@urql/core";
+import { formatDocument, makeOperation } from "@urql/core";
+import type {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  OperationDefinitionNode,
+  SelectionNode,
+  SelectionSetNode,
+  ValueNode,
+} from "graphql";
+import { filter, makeSubject, map, merge, onPush, pipe, share } from "wonka";
+import type { ModelRelationships } from "../AnyClient.js";
+import { capitalizeIdentifier, get } from "../support.js";
+import { $gadgetConnection } from "../symbols.js";
+import type { OptimisticRecord } from "../types.js";
+
+/**
+ * Options for governing which objects the normalized cache stores as records
+ */
+export interface NormalizedCacheExchangeOptions {
+  /**
+   * The relationships between the models of the Gadget app, as found on the app's generated client under `$modelRelationships`. Objects are only cached as records if their `__typename` is one of these models.
+   * If not passed, the relationships the generated client gave to the connection are used, and if there are none, any object with a `__typename` and an `id` is cached as a record.
+   */
+  modelRelationships?: ModelRelationships;
+}
+
+/**
+ * The records a delete action deletes, passed to the normalized cache in the context of the action's mutation
+ */
+export interface DeletedRecords {
+  /** The typename of the model the records belong to */
+  typename: string;
+  /** The ids of the deleted records, or undefined if the action deletes every record matching a filter */
+  ids?: string[];
+  /** The path to the action's result in the mutation's data. The records only count as deleted if the result isn't `success: false`. */
+  dataPath: string[];
+}
+
+/** A pointer to a record in the cache, stored in place of the record itself */
+interface RecordRef {
+  __ref: string;
+}
+
+type StoredFields = Record<string, unknown>;
+
+/** The cache's knowledge of an active query, used to decide when the query's result needs to be updated */
+interface WatchedQuery {
+  operation: Operation;
+  /** The keys of the records and root fields the query's result was read from */
+  dependencies: Set<string>;
+  /** The typenames of the records the query's result holds lists of */
+  listTypenames: Set<string>;
+  /** The typenames of all the records the query's result holds */
+  typenames: Set<string>;
+  /** The serialized data last delivered for the query */
+  last?: string;
+}
+
+interface ReadContext {
+  variables: Record<string, any>;
+  fragments: Record<string, FragmentDefinitionNode>;
+  dependencies: Set<string>;
+  listTypenames: Set<string>;
+  typenames: Set<string>;
+}
+
+interface WriteContext {
+  variables: Record<string, any>;
+  fragments: Record<string, FragmentDefinitionNode>;
+  /** The keys of the records and root fields whose data changed */
+  changed: Set<string>;
+  /** The typenames of records that weren't in the cache before */
+  created: Set<string>;
+  written: number;
+}
+
+const ROOT_KEY = "Query";
+
+const isRef = (value: unknown): value is RecordRef => !!value && typeof value == "object" && "__ref" in value;
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value == "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+const valueOf = (node: ValueNode, variables: Record<string, any>): unknown => {
+  switch (node.kind) {
+    case "Variable":
+      return variables[node.name.value];
+    case "IntValue":
+      return parseInt(node.value, 10);
+    case "FloatValue":
+      return parseFloat(node.value);
+    case "NullValue":
+      return null;
+    case "ListValue":
+      return node.values.map((item) => valueOf(item, variables));
+    case "ObjectValue":
+      return Object.fromEntries(node.fields.map((field) => [field.name.value, valueOf(field.value, variables)]));
+    case "StringValue":
+    case "BooleanValue":
+    case "EnumValue":
+      return node.value;
+  }
+};
+
+const argumentsOf = (field: FieldNode, variables: Record<string, any>): Record<string, any> =>
+  Object.fromEntries((field.arguments ?? []).map((argument) => [argument.name.value, valueOf(argument.value, variables)]));
+
+/** The key a field's value is stored under, which includes its arguments so that the same field with different arguments is stored separately */
+const fieldKey = (field: FieldNode, variables: Record<string, any>) => {
+  if (!field.arguments?.length) return field.name.value;
+  return `${field.name.value}(${stableStringify(argumentsOf(field, variables))})`;
+};
+
+const responseKey = (field: FieldNode) => field.alias?.value ?? field.name.value;
+
+const isIncluded = (selection: SelectionNode, variables: Record<string, any>) => {
+  for (const directive of selection.directives ?? []) {
+    const condition = directive.arguments?.find((argument) => argument.name.value == "if");
+    if (!condition) continue;
+    const value = valueOf(condition.value, variables);
+    if (directive.name.value == "include" && !value) return false;
+    if (directive.name.value == "skip" && value) return false;
+  }
+  return true;
+};
+
+const operationDefinitionOf = (document: DocumentNode) =>
+  document.definitions.find((definition) => definition.kind == "OperationDefinition") as OperationDefinitionNode | undefined;
+
+const fragmentsOf = (document: DocumentNode) => {
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  for (const definition of document.definitions) {
+    if (definition.kind == "FragmentDefinition") fragments[definition.name.value] = definition;
+  }
+  return fragments;
+};
+
+const isLiveQuery = (operation: Operation) =>
+  !!operationDefinitionOf(operation.query)?.directives?.some((directive) => directive.name.value == "live");
+
+/**
+ * List the fields a selection set selects on an object with the given typename, including the fields of any fragments that apply to it.
+ * Without a schema there's no way to know if a fragment on an interface or union applies, so those fragments are assumed to apply if the object has all of their fields.
+ */
+const fieldsOf = (
+  selectionSet: SelectionSetNode,
+  context: { variables: Record<string, any>; fragments: Record<string, FragmentDefinitionNode> },
+  typename: unknown,
+  hasField: (field: FieldNode) => boolean
+): FieldNode[] => {
+  const fields: FieldNode[] = [];
+  for (const selection of selectionSet.selections) {
+    if (!isIncluded(selection, context.variables)) continue;
+    if (selection.kind == "Field") {
+      fields.push(selection);
+      continue;
+    }
+
+    const fragment = selection.kind == "FragmentSpread" ? context.fragments[selection.name.value] : selection;
+    if (!fragment) continue;
+    const fragmentFields = fieldsOf(fragment.selectionSet, context, typename, hasField);
+    const condition = fragment.typeCondition?.name.value;
+    if (!condition || condition == typename || fragmentFields.every(hasField)) {
+      fields.push(...fragmentFields);
+    }
+  }
+  return fields;
+};
+
+/**
+ * Build the operation context for an action's mutation that makes the normalized cache apply the records the action is expected to return to cached query results until the mutation completes
+ */
+export const optimisticActionContext = (modelApiIdentifier: string, records: OptimisticRecord | OptimisticRecord[] | null | undefined) => {
+  if (!records) return {};
+  const typename = capitalizeIdentifier(modelApiIdentifier);
+  return { optimisticRecords: (Array.isArray(records) ? records : [records]).map((record) => ({ __typename: typename, ...record })) };
+};
+
+/**
+ * Build the operation context for an action's mutation that tells the normalized cache which records the action deletes. Delete actions are the ones that don't select a result, as the records they ran on no longer exist.
+ */
+export const deleteActionContext = (
+  action: {
+    operationName: string;
+    namespace?: string | null;
+    modelApiIdentifier: string;
+    defaultSelection: unknown;
+    isBulk?: boolean;
+    hasReturnType?: boolean | null;
+  },
+  variables: Record<string, any>
+): { deletedRecords?: DeletedRecords } => {
+  if (action.defaultSelection != null || action.hasReturnType) return {};
+  const ids: unknown[] = (action.isBulk ? variables.ids : [variables.id]) ?? [];
+  return {
+    deletedRecords: {
+      typename: capitalizeIdentifier(action.modelApiIdentifier),
+      ids: ids.filter((id) => id != null).map(String),
+      dataPath: action.namespace ? [action.namespace, action.operationName] : [action.operationName],
+    },
+  };
+};
+
+/**
+ * urql exchange that caches the records in query results by their `__typename` and `id`, instead of caching whole query results like urql's default document cache.
+ * Each record is stored once, so when a mutation returns a record, every query holding that record is updated in place without being fetched again. When a delete action succeeds, the deleted records are removed from the cached results of every query, including from lists of records.
+ * Queries holding lists of a model are fetched again when a mutation returns a record of that model that the cache hasn't seen before, as the new record may belong in them.
+ *
+ * Mutations can pass records they are expected to return as `optimisticRecords` in their operation context, which are layered over the cached records until the mutation completes.
+ */
+export const normalizedCacheExchange =
+  (options: NormalizedCacheExchangeOptions = {}): Exchange =>
+  ({ forward, client }) => {
+    const records = new Map<string, StoredFields>([[ROOT_KEY, {}]]);
+    const deleted = new Set<string>();
+    // records expected to be returned by in flight mutations, keyed by the mutation's operation key
+    const optimisticLayers = new Map<number, Map<string, StoredFields>>();
+    const watched = new Map<number, WatchedQuery>();
+    const { source: updates$, next: update } = makeSubject<OperationResult>();
+
+    let modelTypenames: Set<string> | undefined;
+    let modelTypenamesFrom: ModelRelationships | undefined;
+    /** The typenames of the app's models, read when needed as the connection is given the generated client's model metadata after the exchange is created */
+    const modelTypenamesOf = () => {
+      const modelRelationships: ModelRelationships | undefined =
+        options.modelRelationships ?? (client as any)[$gadgetConnection]?.modelRelationships;
+      if (modelRelationships !== modelTypenamesFrom) {
+        modelTypenamesFrom = modelRelationships;
+        modelTypenames = modelRelationships
+          ? new Set(Object.keys(modelRelationships).map((apiIdentifier) => capitalizeIdentifier(apiIdentifier)))
+          : undefined;
+      }
+      return modelTypenames;
+    };
+
+    const keyOf = (value: any): string | undefined => {
+      const typename = value.__typename;
+      if (typeof typename != "string" || value.id == null) return;
+      const modelTypenames = modelTypenamesOf();
+      if (modelTypenames && !modelTypenames.has(typename)) return;
+      return `${typename}:${value.id}`;
+    };
+
+    const typenameOfKey = (key: string) => key.slice(0, key.lastIndexOf(":"));
+
+    const writeSelection = (
+      selectionSet: SelectionSetNode,
+      data: Record<string, any>,
+      target: StoredFields,
+      context: WriteContext,
+      key?: string
+    ) => {
+      for (const field of fieldsOf(selectionSet, context, data.__typename, (field) => responseKey(field) in data)) {
+        const value = data[responseKey(field)];
+        if (value === undefined) continue;
+
+        const storedKey = fieldKey(field, context.variables);
+        const stored = field.selectionSet ? writeValue(field.selectionSet, value, context) : value;
+        if (key == ROOT_KEY && stableStringify(target[storedKey]) != stableStringify(stored)) {
+          context.changed.add(`${ROOT_KEY}.${storedKey}`);
+        }
+        target[storedKey] = stored;
+      }
+    };
+
+    const writeValue = (selectionSet: SelectionSetNode, value: any, context: WriteContext): unknown => {
+      if (value == null) return null;
+      if (Array.isArray(value)) return value.map((item) => writeValue(selectionSet, item, context));
+
+      const key = keyOf(value);
+      if (!key) {
+        const embedded: StoredFields = {};
+        writeSelection(selectionSet, value, embedded, context);
+        return embedded;
+      }
+
+      const previous = records.get(key);
+      const fields: StoredFields = { ...previous };
+      writeSelection(selectionSet, value, fields, context);
+      if (!previous || stableStringify(previous) != stableStringify(fields)) context.changed.add(key);
+      if (!previous) context.created.add(value.__typename);
+      records.set(key, fields);
+      deleted.delete(key);
+      context.written += 1;
+      return { __ref: key };
+    };
+
+    const readSelection = (
+      selectionSet: SelectionSetNode,
+      fields: StoredFields,
+      context: ReadContext,
+      key?: string
+    ): Record<string, any> | undefined => {
+      const data: Record<string, any> = {};
+      for (const field of fieldsOf(selectionSet, context, fields.__typename, (field) => fieldKey(field, context.variables) in fields)) {
+        const storedKey = fieldKey(field, context.variables);
+        if (key == ROOT_KEY) context.dependencies.add(`${ROOT_KEY}.${storedKey}`);
+        if (!(storedKey in fields)) return;
+
+        const value = field.selectionSet ? readValue(field.selectionSet, fields[storedKey], context) : fields[storedKey];
+        if (value === undefined) return;
+        data[responseKey(field)] = value;
+      }
+
+      if (typeof fields.__typename == "string" && fields.__typename.endsWith("Connection")) {
+        context.listTypenames.add(fields.__typename.slice(0, -"Connection".length));
+      }
+      return data;
+    };
+
+    const isDeletedItem = (item: unknown) => {
+      if (isRef(item)) return deleted.has(item.__ref);
+      // edges of a connection hold their record under `node`
+      return (
+        !!item &&
+        typeof item == "object" &&
+        isRef((item as StoredFields).node) &&
+        deleted.has(((item as StoredFields).node as RecordRef).__ref)
+      );
+    };
+
+    const readRecord = (key: string) => {
+      let record = records.get(key);
+      for (const layer of optimisticLayers.values()) {
+        const fields = layer.get(key);
+        if (fields) record = { ...record, ...fields };
+      }
+      return record;
+    };
+
+    const readValue = (selectionSet: SelectionSetNode, value: unknown, context: ReadContext): unknown => {
+      if (value == null) return null;
+
+      if (Array.isArray(value)) {
+        const items = [];
+        for (const item of value) {
+          if (isRef(item)) {
+            context.dependencies.add(item.__ref);
+            context.listTypenames.add(typenameOfKey(item.__ref));
+          }
+          if (isDeletedItem(item)) continue;
+          const read = readValue(selectionSet, item, context);
+          if (read === undefined) return;
+          items.push(read);
+        }
+        return items;
+      }
+
+      if (isRef(value)) {
+        context.dependencies.add(value.__ref);
+        context.typenames.add(typenameOfKey(value.__ref));
+        if (deleted.has(value.__ref)) return null;
+        const record = readRecord(value.__ref);
+        return record && readSelection(selectionSet, record, context);
+      }
+
+      return readSelection(selectionSet, value as StoredFields, context);
+    };
+
+    /** Read the data for a query from the cache, returning undefined if the cache doesn't have all of it */
+    const readQuery = (operation: Operation) => {
+      const query = formatDocument(operation.query);
+      const definition = operationDefinitionOf(query);
+      if (!definition) return;
+
+      const context: ReadContext = {
+        variables: operation.variables ?? {},
+        fragments: fragmentsOf(query),
+        dependencies: new Set(),
+        listTypenames: new Set(),
+        typenames: new Set(),
+      };
+      const data = readSelection(definition.selectionSet, records.get(ROOT_KEY)!, context, ROOT_KEY);
+      return data && { data, dependencies: context.dependencies, listTypenames: context.listTypenames, typenames: context.typenames };
+    };
+
+    /** Find the records a delete action deleted, from the records the action said it would delete in its mutation's context */
+    const deletedBy = (operation: Operation, data: Record<string, any>, invalidated: Set<string>) => {
+      const deletedRecords: DeletedRecords | undefined = operation.context.deletedRecords;
+      if (!deletedRecords) return [];
+
+      const result = get(data, deletedRecords.dataPath);
+      if (!result || result.success === false) return [];
+      if (!deletedRecords.ids) {
+        invalidated.add(deletedRecords.typename);
+        return [];
+      }
+      return deletedRecords.ids.map((id) => `${deletedRecords.typename}:${id}`);
+    };
+
+    const refetch = (operation: Operation) => {
+      client.reexecuteOperation(makeOperation(operation.kind, operation, { ...operation.context, requestPolicy: "network-only" }));
+    };
+
+    const watch = (operation: Operation, read: NonNullable<ReturnType<typeof readQuery>>) => {
+      watched.set(operation.key, {
+        operation,
+        dependencies: read.dependencies,
+        listTypenames: read.listTypenames,
+        typenames: read.typenames,
+        last: JSON.stringify(read.data),
+      });
+    };
+
+    /** Update the results of active queries after data in the cache changed */
+    const broadcast = (source: Operation, changed: Set<string>, refetchLists: Set<string>, refetchTypenames: Set<string>) => {
+      for (const query of [...watched.values()]) {
+        if (query.operation.key == source.key) continue;
+
+        if (
+          [...query.listTypenames].some((typename) => refetchLists.has(typename)) ||
+          [...query.typenames, ...query.listTypenames].some((typename) => refetchTypenames.has(typename))
+        ) {
+          refetch(query.operation);
+          continue;
+        }
+
+        if (![...query.dependencies].some((dependency) => changed.has(dependency))) continue;
+
+        const read = readQuery(query.operation);
+        if (!read) {
+          refetch(query.operation);
+          continue;
+        }
+
+        const last = query.last;
+        watch(query.operation, read);
+        if (last != JSON.stringify(read.data)) {
+          update({ operation: query.operation, data: read.data, error: undefined, extensions: undefined, stale: false, hasNext: false });
+        }
+      }
+    };
+
+    const applyOptimisticRecords = (operation: Operation, optimisticRecords: Record<string, any>[]) => {
+      const layer = new Map<string, StoredFields>();
+      for (const record of optimisticRecords) {
+        const key = keyOf(record);
+        if (key) layer.set(key, record);
+      }
+      optimisticLayers.set(operation.key, layer);
+      broadcast(operation, new Set(layer.keys()), new Set(), new Set());
+    };
+
+    /** Remove the records a mutation was expected to return, returning the keys of the records that were in the layer */
+    const removeOptimisticRecords = (operation: Operation) => {
+      const layer = optimisticLayers.get(operation.key);
+      optimisticLayers.delete(operation.key);
+      return layer ? [...layer.keys()] : [];
+    };
+
+    const onResult = (result: OperationResult) => {
+      const { operation, data } = result;
+      const rolledBack = operation.kind == "mutation" ? removeOptimisticRecords(operation) : [];
+      if (!data || (operation.kind != "query" && operation.kind != "mutation" && operation.kind != "subscription")) {
+        if (rolledBack.length > 0) broadcast(operation, new Set(rolledBack), new Set(), new Set());
+        return;
+      }
+
+      const context: WriteContext = {
+        variables: operation.variables ?? {},
+        fragments: fragmentsOf(operation.query),
+        changed: new Set(rolledBack),
+        created: new Set(),
+        written: 0,
+      };
+      const definition = operationDefinitionOf(operation.query);
+      if (!definition) return;
+
+      if (operation.kind == "query") {
+        writeSelection(definition.selectionSet, data, records.get(ROOT_KEY)!, context, ROOT_KEY);
+        if (watched.has(operation.key)) {
+          const read = readQuery(operation);
+          if (read) watch(operation, read);
+        }
+        broadcast(operation, context.changed, new Set(), new Set());
+        return;
+      }
+
+      writeSelection(definition.selectionSet, data, {}, context);
+      if (operation.kind == "subscription") {
+        broadcast(operation, context.changed, new Set(), new Set());
+        return;
+      }
+
+      const invalidated = new Set<string>();
+      const deletedKeys = deletedBy(operation, data, invalidated);
+      for (const key of deletedKeys) {
+        records.delete(key);
+        deleted.add(key);
+        context.changed.add(key);
+      }
+
+      // mutations that don't return any records, like custom actions, fall back to refetching the queries for the typenames they list, the same way urql's document cache does
+      if (context.written == 0 && deletedKeys.length == 0) {
+        for (const typename of operation.context.additionalTypenames ?? []) invalidated.add(typename);
+      }
+
+      broadcast(operation, context.changed, context.created, invalidated);
+    };
+
+    const isCacheable = (operation: Operation) =>
+      operation.kind == "query" && operation.context.requestPolicy != "network-only" && !isLiveQuery(operation);
+
+    return (operations$) => {
+      const inspected$ = pipe(
+        operations$,
+        map((operation) => {
+          if (operation.kind == "teardown") {
+            watched.delete(operation.key);
+            const rolledBack = removeOptimisticRecords(operation);
+            if (rolledBack.length > 0) broadcast(operation, new Set(rolledBack), new Set(), new Set());
+            return { operation };
+          }
+
+          if (operation.kind == "mutation" && operation.context.optimisticRecords?.length) {
+            applyOptimisticRecords(operation, operation.context.optimisticRecords);
+          }
+
+          if (operation.kind == "query") {
+            const cached = isCacheable(operation) ? readQuery(operation) : undefined;
+            if (cached) {
+              watch(operation, cached);
+            } else {
+              watched.set(operation.key, {
+                ...watched.get(operation.key),
+                operation,
+                dependencies: new Set(),
+                listTypenames: new Set(),
+                typenames: new Set(),
+              });
+            }
+            return { operation, cached };
+          }
+
+          return { operation };
+        }),
+        share
+      );
+
+      const cacheResults$ = pipe(
+        inspected$,
+        filter(({ operation, cached }) => !!cached || (operation.kind == "query" && operation.context.requestPolicy == "cache-only")),
+        map(({ operation, cached }): OperationResult => {
+          const stale = operation.context.requestPolicy == "cache-and-network";
+          if (stale) refetch(operation);
+          return { operation, data: cached?.data, error: undefined, extensions: undefined, stale, hasNext: false };
+        })
+      );
+
+      const networkResults$ = pipe(
+        inspected$,
+        filter(({ operation, cached }) => !cached && !(operation.kind == "query" && operation.context.requestPolicy == "cache-only")),
+        map(({ operation }) => {
+          if (operation.kind == "teardown") return operation;
+          // select the `__typename` of every object so records can be recognized in results
+          const formatted = makeOperation(operation.kind, operation);
+          formatted.query = formatDocument(operation.query);
+          return formatted;
+        }),
+        forward,
+        onPush(onResult)
+      );
+
+      return merge([cacheResults$, networkResults$, updates$]);
+    };
+  };
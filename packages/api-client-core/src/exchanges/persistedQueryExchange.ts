@@ -0,0 +1,128 @@
+import type { CombinedError, Exchange, Operation, OperationResult } from "@urql/core";
+import { makeOperation, stringifyDocument } from "@urql/core";
+import type { DocumentNode } from "graphql";
+import { filter, fromPromise, fromValue, makeSubject, merge, mergeMap, pipe, share, takeUntil } from "wonka";
+
+/**
+ * Options for governing how automatic persisted queries are sent
+ */
+export interface PersistedQueryExchangeOptions {
+  /**
+   * Send persisted queries with HTTP `GET` requests so that they can be cached by CDNs and browsers. Queries whose URL would be too long are sent with `POST` instead. Mutations are always sent with `POST`.
+   * Default is `"within-url-limit"`. Pass `false` to always send persisted queries with `POST`.
+   */
+  preferGetMethod?: boolean | "force" | "within-url-limit";
+  /** Compute the hash identifying a GraphQL document. Defaults to the hex encoded SHA-256 hash of the document's text, using the Web Crypto API. Documents are always sent in full in runtimes without the Web Crypto API unless a hash function is given. */
+  generateHash?: (query: string, document: DocumentNode) => Promise<string>;
+}
+
+const sha256 = async (query: string) => {
+  if (!globalThis.crypto?.subtle) {
+    // documents are sent in full when they can't be hashed, so runtimes without the Web Crypto API still work without persisted queries
+    throw new Error(
+      "The Web Crypto API isn't available to hash GraphQL documents with, pass a `generateHash` function to use persisted queries"
+    );
+  }
+
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", new TextEncoder().encode(query));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const hasErrorMatching = (error: CombinedError | undefined, message: string, code: string) =>
+  !!error?.graphQLErrors.some((graphQLError) => graphQLError.message == message || graphQLError.extensions?.code == code);
+
+/**
+ * urql exchange that sends queries and mutations as automatic persisted queries: only a hash of the GraphQL document is sent at first, and the full document is only sent if the server doesn't recognize the hash yet.
+ * If the server responds that it doesn't support persisted queries at all, the exchange stops sending hashes and sends full documents from then on.
+ */
+export const persistedQueryExchange =
+  (options: PersistedQueryExchangeOptions = {}): Exchange =>
+  ({ forward }) =>
+  (operations$) => {
+    const preferGetMethod = options.preferGetMethod ?? "within-url-limit";
+    const generateHash = options.generateHash ?? sha256;
+    const hashes = new WeakMap<DocumentNode, Promise<string>>();
+    let supported = true;
+
+    const sharedOperations$ = share(operations$);
+    const { source: retries$, next: retry } = makeSubject<Operation>();
+
+    const hashFor = (document: DocumentNode) => {
+      let hash = hashes.get(document);
+      if (!hash) {
+        hash = generateHash(stringifyDocument(document), document);
+        hashes.set(document, hash);
+      }
+      return hash;
+    };
+
+    const persist = async (operation: Operation) => {
+      const sha256Hash = await hashFor(operation.query);
+      return makeOperation(
+        operation.kind,
+        { ...operation, extensions: { ...operation.extensions, persistedQuery: { version: 1, sha256Hash } } },
+        { ...operation.context, preferGetMethod: operation.kind == "query" ? preferGetMethod : false }
+      );
+    };
+
+    const persisted$ = pipe(
+      sharedOperations$,
+      filter((operation) => operation.kind != "teardown"),
+      mergeMap((operation) => {
+        if (!supported || (operation.kind != "query" && operation.kind != "mutation")) {
+          return fromValue(operation);
+        }
+
+        const teardown$ = pipe(
+          sharedOperations$,
+          filter((other) => other.kind == "teardown" && other.key == operation.key)
+        );
+
+        return pipe(
+          fromPromise(
+            persist(operation).catch(() => {
+              // if the document can't be hashed, send it in full
+              return operation;
+            })
+          ),
+          takeUntil(teardown$)
+        );
+      })
+    );
+
+    const teardowns$ = pipe(
+      sharedOperations$,
+      filter((operation) => operation.kind == "teardown")
+    );
+
+    return pipe(
+      merge([persisted$, teardowns$, retries$]),
+      forward,
+      filter((result: OperationResult) => {
+        const { error, operation } = result;
+        const persistedQuery = operation.extensions?.persistedQuery;
+        if (!persistedQuery || persistedQuery.miss) return true;
+
+        if (hasErrorMatching(error, "PersistedQueryNotSupported", "PERSISTED_QUERY_NOT_SUPPORTED")) {
+          supported = false;
+          const { persistedQuery: _persistedQuery, ...extensions } = operation.extensions!;
+          retry(makeOperation(operation.kind, { ...operation, extensions }, { ...operation.context, preferGetMethod: false }));
+          return false;
+        }
+
+        if (hasErrorMatching(error, "PersistedQueryNotFound", "PERSISTED_QUERY_NOT_FOUND")) {
+          // send the full document alongside the hash with a POST so the server can register it for next time
+          retry(
+            makeOperation(
+              operation.kind,
+              { ...operation, extensions: { ...operation.extensions, persistedQuery: { ...persistedQuery, miss: true } } },
+              { ...operation.context, preferGetMethod: false }
+            )
+          );
+          return false;
+        }
+
+        return true;
+      })
+    );
+  };
@@ -0,0 +1,113 @@
+import type { CombinedError, Exchange, Operation, OperationResult } from "@urql/core";
+import { makeOperation } from "@urql/core";
+import { delay, filter, fromValue, makeSubject, merge, mergeMap, pipe, share, takeUntil } from "wonka";
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_INITIAL_DELAY = 250;
+const DEFAULT_RETRY_MAX_DELAY = 10_000;
+const DEFAULT_RETRY_BACKOFF_FACTOR = 2;
+
+const RETRYABLE_STATUS_CODES = [408, 429, 502, 503, 504];
+
+/**
+ * Options for governing how failed HTTP GraphQL operations are retried
+ */
+export interface RetryExchangeOptions {
+  /** The maximum number of times to send an operation, including the first attempt. Default is 3. */
+  maxAttempts?: number;
+  /** How long to wait before the first retry, in milliseconds. Default is 250. */
+  initialDelayMs?: number;
+  /** The longest to wait between any two attempts, in milliseconds. Also caps how long a `Retry-After` header can make the client wait. Default is 10000. */
+  maxDelayMs?: number;
+  /** The exponential backoff factor to use for calculating the delay before successive retries. Default is 2. */
+  backoffFactor?: number;
+  /** Randomize the delay before each retry so that many clients retrying at once don't all retry in lockstep. Default is true. */
+  randomizeDelay?: boolean;
+  /**
+   * Decide if an operation that failed with the given error should be retried. Defaults to `isRetryableOperationError`, which retries network errors and overloaded or unavailable responses for queries, and for mutations marked safe to retry with the `retrySafe` context option.
+   */
+  retryIf?: (error: CombinedError, operation: Operation) => boolean;
+}
+
+/**
+ * Returns true if an operation failed in a way that is safe to retry: the request couldn't be made, or the server responded that it was overloaded or unavailable.
+ * Only queries and mutations marked safe to retry with the `retrySafe` context option are retried, as other mutations might have been processed before the error occurred.
+ */
+export const isRetryableOperationError = (error: CombinedError, operation: Operation): boolean => {
+  if (operation.kind != "query" && !(operation.kind == "mutation" && operation.context.retrySafe)) return false;
+
+  const status: number | undefined = error.response?.status;
+  if (status) return RETRYABLE_STATUS_CODES.includes(status);
+
+  return !!error.networkError;
+};
+
+/** Parse a `Retry-After` header value, which can be a number of seconds or an HTTP date, into milliseconds to wait */
+const retryAfterMs = (error: CombinedError): number | undefined => {
+  const header: string | null | undefined = error.response?.headers?.get?.("retry-after");
+  if (!header) return;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+};
+
+/**
+ * urql exchange that retries failed HTTP GraphQL operations with exponential backoff, honoring the `Retry-After` header sent by the server.
+ * The number of retries made so far for an operation is available to other exchanges as `retryAttempt` in its context.
+ */
+export const retryExchange =
+  (options: RetryExchangeOptions = {}): Exchange =>
+  ({ forward }) =>
+  (operations$) => {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_RETRY_ATTEMPTS;
+    const initialDelay = options.initialDelayMs ?? DEFAULT_RETRY_INITIAL_DELAY;
+    const maxDelay = options.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY;
+    const backoffFactor = options.backoffFactor ?? DEFAULT_RETRY_BACKOFF_FACTOR;
+    const randomizeDelay = options.randomizeDelay ?? true;
+    const retryIf = options.retryIf ?? isRetryableOperationError;
+
+    const sharedOperations$ = share(operations$);
+    const { source: retries$, next: retry } = makeSubject<Operation>();
+
+    const delayedRetries$ = pipe(
+      retries$,
+      mergeMap((operation) => {
+        // stop waiting to retry if the operation is torn down in the meantime
+        const teardown$ = pipe(
+          sharedOperations$,
+          filter((other) => other.kind == "teardown" && other.key == operation.key)
+        );
+
+        return pipe(fromValue(operation), delay(operation.context.retryDelay), takeUntil(teardown$));
+      })
+    );
+
+    return pipe(
+      merge([sharedOperations$, delayedRetries$]),
+      forward,
+      filter((result: OperationResult) => {
+        const { error, operation } = result;
+        if (!error) return true;
+
+        const retryAttempt: number = operation.context.retryAttempt ?? 0;
+        if (retryAttempt + 1 >= maxAttempts || !retryIf(error, operation)) return true;
+
+        let retryDelay = Math.min(maxDelay, initialDelay * backoffFactor ** retryAttempt);
+        if (randomizeDelay) retryDelay = retryDelay / 2 + (Math.random() * retryDelay) / 2;
+        const serverDelay = retryAfterMs(error);
+        if (serverDelay !== undefined) retryDelay = Math.min(maxDelay, Math.max(retryDelay, serverDelay));
+
+        retry(
+          makeOperation(operation.kind, operation, {
+            ...operation.context,
+            retryAttempt: retryAttempt + 1,
+            retryDelay,
+          })
+        );
+        return false;
+      })
+    );
+  };
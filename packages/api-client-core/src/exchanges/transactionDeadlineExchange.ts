@@ -0,0 +1,9 @@
+import { mapExchange } from "@urql/core";
+
+/** Adds the time a transaction must finish by to the context of every operation made within it, as `transactionDeadline` */
+export const transactionDeadlineExchange = (deadline: Date) =>
+  mapExchange({
+    onOperation: (operation) => {
+      operation.context.transactionDeadline ??= deadline;
+    },
+  });
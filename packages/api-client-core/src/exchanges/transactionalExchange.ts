@@ -0,0 +1,8 @@
+import { mapExchange } from "@urql/core";
+
+/** Marks every operation made within a transaction with `transactional: true` in its context, so other exchanges can tell them apart from operations made outside any transaction */
+export const transactionalExchange = mapExchange({
+  onOperation: (operation) => {
+    operation.context.transactional = true;
+  },
+});
@@ -11,7 +11,15 @@ export * from "./GadgetTransaction.js";
 export * from "./InMemoryStorage.js";
 export * from "./InternalModelManager.js";
 export * from "./ModelManager.js";
+export * from "./OfflineMutationQueue.js";
+export * from "./TransactionStorage.js";
+export * from "./exchanges/batchExchange.js";
+export * from "./exchanges/instrumentationExchange.js";
+export * from "./exchanges/normalizedCacheExchange.js";
+export * from "./exchanges/persistedQueryExchange.js";
+export * from "./exchanges/retryExchange.js";
 export * from "./operationBuilders.js";
 export * from "./operationRunners.js";
 export * from "./support.js";
+export * from "./symbols.js";
 export * from "./types.js";
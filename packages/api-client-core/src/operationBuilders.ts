@@ -1,8 +1,19 @@
 import type { FieldSelection as BuilderFieldSelection, BuilderOperation, Variable } from "tiny-graphql-query-compiler";
 import { Call, Var, compileWithVariableValues } from "tiny-graphql-query-compiler";
 import type { FieldSelection } from "./FieldSelection.js";
+import type { AnyActionFunction } from "./GadgetFunctions.js";
 import { camelize, filterTypeName, sortTypeName } from "./support.js";
-import type { BaseFindOptions, EnqueueBackgroundActionOptions, FindManyOptions, VariablesOptions } from "./types.js";
+import type {
+  ActionFunctionOptions,
+  AggregateOptions,
+  BaseFindOptions,
+  CountOptions,
+  EnqueueBackgroundActionOptions,
+  FindManyOptions,
+  Selectable,
+  VariablesOptions,
+} from "./types.js";
+import { isUpsertOperation, upsertResultTypenames } from "./upsertOutcomes.js";
 
 const hydrationOptions = (modelApiIdentifier: string): BuilderFieldSelection => {
   return {
@@ -101,6 +112,55 @@ export const findManyOperation = (
   });
 };
 
+const countVariables = (modelApiIdentifier: string, options?: CountOptions | null) => ({
+  filter: options?.filter ? Var({ value: options.filter, type: `[${filterTypeName(modelApiIdentifier)}!]` }) : undefined,
+  search: options?.search ? Var({ value: options.search, type: "String" }) : undefined,
+});
+
+/**
+ * Builds the selection of an aggregate field, which aggregates the records of a connection into groups
+ * The field names are passed as literal arguments, as the query compiler only declares variables for the arguments of top level calls
+ **/
+export const aggregateSelection = (options: Omit<AggregateOptions, keyof CountOptions>): BuilderFieldSelection => {
+  const aggregateFields = (name: "sum" | "avg" | "min" | "max") => (options[name]?.length ? Call({ fields: options[name] }) : false);
+
+  return {
+    aggregate: Call(
+      { groupBy: options.groupBy?.length ? options.groupBy : undefined },
+      {
+        group: true,
+        count: true,
+        sum: aggregateFields("sum"),
+        avg: aggregateFields("avg"),
+        min: aggregateFields("min"),
+        max: aggregateFields("max"),
+      }
+    ),
+  };
+};
+
+export const countOperation = (operation: string, modelApiIdentifier: string, options?: CountOptions | null) => {
+  return compileWithVariableValues({
+    type: "query",
+    name: `${operation}Count`,
+    fields: {
+      [operation]: Call(countVariables(modelApiIdentifier, options), { count: true }),
+    },
+    directives: directivesForOptions(options),
+  });
+};
+
+export const aggregateOperation = (operation: string, modelApiIdentifier: string, options?: AggregateOptions | null) => {
+  return compileWithVariableValues({
+    type: "query",
+    name: `${operation}Aggregate`,
+    fields: {
+      [operation]: Call(countVariables(modelApiIdentifier, options), aggregateSelection(options ?? {})),
+    },
+    directives: directivesForOptions(options),
+  });
+};
+
 const ErrorsSelection: BuilderFieldSelection = {
   message: true,
   code: true,
@@ -129,13 +189,24 @@ export const actionOperation = (
 ) => {
   const selection = options?.select || defaultSelection;
 
+  let resultSelection: BuilderFieldSelection = {
+    success: true,
+    errors: ErrorsSelection,
+    [modelSelectionField]: selection && !hasReturnType ? fieldSelectionToQueryCompilerFields(selection, true) : false,
+    [isBulkAction ? "results" : "result"]: !!hasReturnType,
+  };
+
+  if (!isBulkAction && isUpsertOperation(operation, modelApiIdentifier)) {
+    const typenames = upsertResultTypenames(modelApiIdentifier, { namespace });
+    resultSelection = {
+      __typename: true,
+      [`... on ${typenames.created}`]: resultSelection,
+      [`... on ${typenames.updated}`]: resultSelection,
+    };
+  }
+
   let fields: BuilderFieldSelection = {
-    [operation]: Call(variableOptionsToVariables(variables), {
-      success: true,
-      errors: ErrorsSelection,
-      [modelSelectionField]: selection && !hasReturnType ? fieldSelectionToQueryCompilerFields(selection, true) : false,
-      [isBulkAction ? "results" : "result"]: !!hasReturnType,
-    }),
+    [operation]: Call(variableOptionsToVariables(variables), resultSelection),
   };
 
   if (namespace) {
@@ -210,6 +281,17 @@ export const graphqlizeBackgroundOptions = (options?: EnqueueBackgroundActionOpt
   return obj;
 };
 
+const EnqueueResultSelection: BuilderFieldSelection = {
+  success: true,
+  errors: {
+    message: true,
+    code: true,
+  },
+  backgroundAction: {
+    id: true,
+  },
+};
+
 export const enqueueActionOperation = (
   operation: string,
   variables: VariablesOptions,
@@ -226,16 +308,7 @@ export const enqueueActionOperation = (
             value: graphqlizeBackgroundOptions(options),
           }),
         },
-        {
-          success: true,
-          errors: {
-            message: true,
-            code: true,
-          },
-          backgroundAction: {
-            id: true,
-          },
-        }
+        EnqueueResultSelection
       ),
     },
   };
@@ -252,3 +325,194 @@ export const enqueueActionOperation = (
     fields,
   });
 };
+
+/** One invocation of an action to enqueue as part of a larger batch */
+export interface EnqueueInvocation {
+  variables: VariablesOptions;
+  options?: EnqueueBackgroundActionOptions<any> | null;
+}
+
+/** The field alias used for the invocation at the given index within a batch enqueue mutation */
+export const enqueueInvocationAlias = (index: number) => `enqueue${index}`;
+
+/**
+ * Builds a mutation that enqueues many invocations of the same action at once, using one aliased field per invocation
+ **/
+export const enqueueManyActionOperation = (operation: string, invocations: EnqueueInvocation[], namespace?: string | null) => {
+  const background: BuilderFieldSelection = {};
+
+  invocations.forEach(({ variables, options }, index) => {
+    const args = Object.fromEntries(
+      Object.entries(variables).map(([name, variable]) => [name, Var({ ...variable, name: `${name}${index}` })])
+    );
+    background[`${enqueueInvocationAlias(index)}: ${operation}`] = Call(
+      {
+        ...args,
+        backgroundOptions: Var({
+          type: "EnqueueBackgroundActionOptions",
+          name: `backgroundOptions${index}`,
+          value: graphqlizeBackgroundOptions(options),
+        }),
+      },
+      EnqueueResultSelection
+    );
+  });
+
+  let fields: BuilderFieldSelection = { background };
+  if (namespace) {
+    fields = {
+      [namespace]: fields,
+    };
+  }
+
+  return compileWithVariableValues({
+    type: "mutation",
+    name: "enqueueMany" + camelize(operation),
+    fields,
+  });
+};
+
+const backgroundActionResultTypeName = (action: AnyActionFunction) => {
+  return camelize(action.namespace ? `${action.namespace}_${action.operationName}` : action.operationName) + "Result";
+};
+
+/**
+ * Builds a query that fetches the current state of a background action, and the result of the action if it has finished
+ **/
+export const backgroundActionResultOperation = <Action extends AnyActionFunction>(
+  id: string,
+  action: Action,
+  options?: ActionFunctionOptions<Action> | Selectable | null
+) => {
+  let resultFields: BuilderFieldSelection;
+  let hydrations: BuilderFieldSelection = {};
+
+  if (action.type == "action") {
+    const selection = (options as BaseFindOptions | null | undefined)?.select || action.defaultSelection;
+    resultFields = {
+      success: true,
+      errors: ErrorsSelection,
+      [action.modelSelectionField]: selection && !action.hasReturnType ? fieldSelectionToQueryCompilerFields(selection, true) : false,
+      [action.isBulk ? "results" : "result"]: !!action.hasReturnType,
+    };
+    hydrations = hydrationOptions(action.modelApiIdentifier);
+  } else {
+    resultFields = {
+      success: true,
+      errors: ErrorsSelection,
+      result: true,
+    };
+  }
+
+  return compileWithVariableValues({
+    type: "query",
+    name: action.operationName + "BackgroundResult",
+    fields: {
+      backgroundAction: Call(
+        { id: Var({ value: id, type: "String!" }) },
+        {
+          id: true,
+          state: true,
+          outcome: true,
+          result: {
+            [`... on ${backgroundActionResultTypeName(action)}`]: resultFields,
+          },
+        }
+      ),
+      ...hydrations,
+    },
+  });
+};
+
+const BackgroundActionStatusSelection: BuilderFieldSelection = {
+  id: true,
+  state: true,
+  outcome: true,
+};
+
+/**
+ * Builds a subscription that reports the outcome of a background action as soon as it has finished
+ **/
+export const backgroundActionOutcomeSubscription = (id: string, action: AnyActionFunction) => {
+  return compileWithVariableValues({
+    type: "subscription",
+    name: action.operationName + "BackgroundOutcome",
+    fields: {
+      backgroundAction: Call({ id: Var({ value: id, type: "String!" }) }, BackgroundActionStatusSelection),
+    },
+  });
+};
+
+/**
+ * Builds a query that fetches the current state of a background action
+ **/
+export const backgroundActionStatusOperation = (id: string) => {
+  return compileWithVariableValues({
+    type: "query",
+    name: "BackgroundActionStatus",
+    fields: {
+      backgroundAction: Call({ id: Var({ value: id, type: "String!" }) }, BackgroundActionStatusSelection),
+    },
+  });
+};
+
+/**
+ * Builds a query that fetches each of the attempts made to run a background action
+ **/
+export const backgroundActionAttemptsOperation = (id: string) => {
+  return compileWithVariableValues({
+    type: "query",
+    name: "BackgroundActionAttempts",
+    fields: {
+      backgroundAction: Call(
+        { id: Var({ value: id, type: "String!" }) },
+        {
+          id: true,
+          attempts: {
+            id: true,
+            attemptNumber: true,
+            state: true,
+            startedAt: true,
+            finishedAt: true,
+            error: {
+              message: true,
+              code: true,
+            },
+          },
+        }
+      ),
+    },
+  });
+};
+
+const backgroundActionControlOperation = (operation: string, id: string) => {
+  return compileWithVariableValues({
+    type: "mutation",
+    name: camelize(operation),
+    fields: {
+      background: {
+        [operation]: Call(
+          { id: Var({ value: id, type: "String!" }) },
+          {
+            success: true,
+            errors: {
+              message: true,
+              code: true,
+            },
+            backgroundAction: BackgroundActionStatusSelection,
+          }
+        ),
+      },
+    },
+  });
+};
+
+/**
+ * Builds a mutation that cancels a background action that hasn't finished yet
+ **/
+export const cancelBackgroundActionOperation = (id: string) => backgroundActionControlOperation("cancelBackgroundAction", id);
+
+/**
+ * Builds a mutation that runs a background action that is waiting to be retried right away
+ **/
+export const retryBackgroundActionOperation = (id: string) => backgroundActionControlOperation("retryBackgroundAction", id);
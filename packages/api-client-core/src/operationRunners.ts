@@ -5,16 +5,24 @@ import { AnyActionFunction } from "./GadgetFunctions.js";
 import type { GadgetRecord, RecordShape } from "./GadgetRecord.js";
 import { GadgetRecordList } from "./GadgetRecordList.js";
 import type { AnyModelManager } from "./ModelManager.js";
+import { deleteActionContext, optimisticActionContext } from "./exchanges/normalizedCacheExchange.js";
 import {
   actionOperation,
+  aggregateOperation,
+  countOperation,
   enqueueActionOperation,
+  enqueueInvocationAlias,
+  enqueueManyActionOperation,
   findManyOperation,
   findOneByFieldOperation,
   findOneOperation,
   globalActionOperation,
 } from "./operationBuilders.js";
+import type { GadgetError } from "./support.js";
 import {
+  GadgetClientError,
   GadgetErrorGroup,
+  aggregateGroups,
   assertMutationSuccess,
   assertNullableOperationSuccess,
   assertOperationSuccess,
@@ -28,7 +36,19 @@ import {
   hydrateRecordArray,
   setVariableOptionValues,
 } from "./support.js";
-import type { BaseFindOptions, EnqueueBackgroundActionOptions, FindManyOptions, VariablesOptions } from "./types.js";
+import type {
+  AggregateGroup,
+  AggregateOptions,
+  BaseFindOptions,
+  CountOptions,
+  EnqueueBackgroundActionOptions,
+  EnqueueManyBackgroundActionOptions,
+  FindManyOptions,
+  OptimisticActionOptions,
+  UpsertActionOptions,
+  VariablesOptions,
+} from "./types.js";
+import { isUpsertOperation, upsertOutcomeOf } from "./upsertOutcomes.js";
 
 export const findOneRunner = async <Shape extends RecordShape = any>(
   modelManager: { connection: GadgetConnection },
@@ -92,6 +112,34 @@ export const findManyRunner = async <Shape extends RecordShape = any>(
   return GadgetRecordList.boot<Shape>(modelManager, records, { options, pageInfo: connectionObject.pageInfo });
 };
 
+/**
+ * Counts the records of a model matching the given filter and search, using the model's find many operation
+ **/
+export const countRunner = async (
+  modelManager: { connection: GadgetConnection },
+  operation: string,
+  modelApiIdentifier: string,
+  options?: CountOptions | null
+): Promise<number> => {
+  const plan = countOperation(operation, modelApiIdentifier, options);
+  const response = await modelManager.connection.currentClient.query(plan.query, plan.variables).toPromise();
+  return assertOperationSuccess(response, [operation]).count;
+};
+
+/**
+ * Aggregates the records of a model matching the given filter and search into groups, using the model's find many operation
+ **/
+export const aggregateRunner = async <FieldT extends string = string>(
+  modelManager: { connection: GadgetConnection },
+  operation: string,
+  modelApiIdentifier: string,
+  options?: AggregateOptions<any, FieldT> | null
+): Promise<AggregateGroup<FieldT>[]> => {
+  const plan = aggregateOperation(operation, modelApiIdentifier, options);
+  const response = await modelManager.connection.currentClient.query(plan.query, plan.variables).toPromise();
+  return aggregateGroups(assertOperationSuccess(response, [operation]).aggregate);
+};
+
 export interface ActionRunner {
   (
     modelManager: { connection: GadgetConnection },
@@ -101,7 +149,7 @@ export interface ActionRunner {
     modelSelectionField: string,
     isBulkAction: false,
     variables: VariablesOptions,
-    options?: BaseFindOptions | null,
+    options?: (BaseFindOptions & OptimisticActionOptions & UpsertActionOptions) | null,
     namespace?: string | null,
     hasReturnType?: true
   ): Promise<any>;
@@ -114,7 +162,7 @@ export interface ActionRunner {
     modelSelectionField: string,
     isBulkAction: false,
     variables: VariablesOptions,
-    options?: BaseFindOptions | null,
+    options?: (BaseFindOptions & OptimisticActionOptions & UpsertActionOptions) | null,
     namespace?: string | null,
     hasReturnType?: false
   ): Promise<Shape extends void ? void : GadgetRecord<Shape>>;
@@ -127,7 +175,7 @@ export interface ActionRunner {
     modelSelectionField: string,
     isBulkAction: false,
     variables: VariablesOptions,
-    options?: BaseFindOptions | null,
+    options?: (BaseFindOptions & OptimisticActionOptions & UpsertActionOptions) | null,
     namespace?: string | null
   ): Promise<Shape extends void ? void : GadgetRecord<Shape>>;
 
@@ -139,7 +187,7 @@ export interface ActionRunner {
     modelSelectionField: string,
     isBulkAction: true,
     variables: VariablesOptions,
-    options?: BaseFindOptions | null,
+    options?: (BaseFindOptions & OptimisticActionOptions) | null,
     namespace?: string | null
   ): Promise<Shape extends void ? void : GadgetRecord<Shape>[]>;
 
@@ -151,7 +199,7 @@ export interface ActionRunner {
     modelSelectionField: string,
     isBulkAction: true,
     variables: VariablesOptions,
-    options?: BaseFindOptions | null,
+    options?: (BaseFindOptions & OptimisticActionOptions) | null,
     namespace?: string | null,
     hasReturnType?: true
   ): Promise<any[]>;
@@ -164,7 +212,7 @@ export interface ActionRunner {
     modelSelectionField: string,
     isBulkAction: true,
     variables: VariablesOptions,
-    options?: BaseFindOptions | null,
+    options?: (BaseFindOptions & OptimisticActionOptions) | null,
     namespace?: string | null,
     hasReturnType?: false
   ): Promise<Shape extends void ? void : GadgetRecord<Shape>[]>;
@@ -178,7 +226,7 @@ export const actionRunner: ActionRunner = async <Shape extends RecordShape = any
   modelSelectionField: string,
   isBulkAction: boolean,
   variables: VariablesOptions,
-  options?: BaseFindOptions | null,
+  options?: (BaseFindOptions & OptimisticActionOptions & UpsertActionOptions) | null,
   namespace?: string | null,
   hasReturnType?: boolean | null
 ) => {
@@ -193,7 +241,15 @@ export const actionRunner: ActionRunner = async <Shape extends RecordShape = any
     isBulkAction,
     hasReturnType
   );
-  const response = await modelManager.connection.currentClient.mutation(plan.query, plan.variables).toPromise();
+  const response = await modelManager.connection.currentClient
+    .mutation(plan.query, plan.variables, {
+      ...optimisticActionContext(modelApiIdentifier, options?.optimistic?.(plan.variables)),
+      ...deleteActionContext(
+        { operationName: operation, namespace, modelApiIdentifier, defaultSelection, isBulk: isBulkAction, hasReturnType },
+        plan.variables
+      ),
+    })
+    .toPromise();
 
   // pass bulk responses through without any assertions since we can have a success: false response but still want
   // to process it in a similar fashion since some of the records could have been processed
@@ -205,7 +261,11 @@ export const actionRunner: ActionRunner = async <Shape extends RecordShape = any
     // if there's nothing at `mutationResult[modelSelectionField]`, but the caller isn't expecting a return (void).
     if (defaultSelection == null) return;
     if (!hasReturnType) {
-      return hydrateRecord<Shape>(response, mutationTriple[modelSelectionField]);
+      const record = hydrateRecord<Shape>(response, mutationTriple[modelSelectionField]);
+      if (options?.onUpsertOutcome && isUpsertOperation(operation, modelApiIdentifier)) {
+        options.onUpsertOutcome(upsertOutcomeOf(mutationTriple, modelApiIdentifier, { namespace }));
+      }
+      return record;
     } else {
       return mutationTriple.result;
     }
@@ -236,32 +296,128 @@ export const globalActionRunner = async (
   return assertMutationSuccess(response, dataPath).result;
 };
 
-export const enqueueActionRunner = async <Action extends AnyActionFunction>(
-  connection: GadgetConnection,
-  action: Action,
-  variables: Action["variablesType"],
-  options: EnqueueBackgroundActionOptions<Action> = {}
-) => {
+const DEFAULT_ENQUEUE_CHUNK_SIZE = 100;
+
+export interface EnqueueActionRunner {
+  <Action extends AnyActionFunction>(
+    connection: GadgetConnection,
+    action: Action,
+    variables: Action["variablesType"],
+    options?: EnqueueBackgroundActionOptions<Action>
+  ): Promise<BackgroundActionHandle<Action>>;
+
+  <Action extends AnyActionFunction>(
+    connection: GadgetConnection,
+    action: Action,
+    variables: Action["variablesType"][],
+    options?: EnqueueManyBackgroundActionOptions<Action>
+  ): Promise<BackgroundActionHandle<Action>[]>;
+}
+
+/**
+ * If the given variables are a list of separate invocations of the action to enqueue, instead of the variables for one invocation
+ * Bulk actions already take a list of inputs, so a list of many invocations of a bulk action is a list of lists.
+ **/
+const isManyInvocations = (action: AnyActionFunction, variables: any): variables is any[] => {
+  if (!Array.isArray(variables)) return false;
+  if ("isBulk" in action && action.isBulk) return variables.length > 0 && variables.every((item) => Array.isArray(item));
+  return true;
+};
+
+const normalizeEnqueueVariables = (action: AnyActionFunction, variables: Record<string, any>) => {
   const normalizedVariableValues =
     "isBulk" in action && action.isBulk
       ? disambiguateBulkActionVariables(action, variables)
       : disambiguateActionVariables(action, variables);
-  const variableOptions = setVariableOptionValues(action.variables, normalizedVariableValues);
+  return setVariableOptionValues(action.variables, normalizedVariableValues);
+};
 
-  const plan = enqueueActionOperation(action.operationName, variableOptions, action.namespace, options);
-  const response = await connection.currentClient.mutation(plan.query, plan.variables, options).toPromise();
+const enqueueDataPath = (action: AnyActionFunction) => {
   const dataPath = ["background", action.operationName];
   if (action.namespace) {
     dataPath.unshift(action.namespace);
   }
+  return dataPath;
+};
+
+const isIgnorableDuplicateError = (error: any, options: EnqueueBackgroundActionOptions<any>) => {
+  return "code" in error && error.code == "GGT_DUPLICATE_BACKGROUND_ACTION_ID" && options?.id && options.onDuplicateID == "ignore";
+};
+
+export const enqueueActionRunner: EnqueueActionRunner = async <Action extends AnyActionFunction>(
+  connection: GadgetConnection,
+  action: Action,
+  variables: Action["variablesType"],
+  options: EnqueueBackgroundActionOptions<Action> | EnqueueManyBackgroundActionOptions<Action> = {}
+): Promise<any> => {
+  if (isManyInvocations(action, variables)) {
+    return await enqueueManyActionRunner(connection, action, variables, options as EnqueueManyBackgroundActionOptions<Action>);
+  }
+
+  const singleOptions = options as EnqueueBackgroundActionOptions<Action>;
+  const variableOptions = normalizeEnqueueVariables(action, variables);
+
+  const plan = enqueueActionOperation(action.operationName, variableOptions, action.namespace, singleOptions);
+  const response = await connection.currentClient.mutation(plan.query, plan.variables, singleOptions).toPromise();
 
   try {
-    const result = assertMutationSuccess(response, dataPath);
-    return new BackgroundActionHandle(connection, result.backgroundAction.id, options);
+    const result = assertMutationSuccess(response, enqueueDataPath(action));
+    return new BackgroundActionHandle(connection, result.backgroundAction.id, singleOptions, action);
   } catch (error: any) {
-    if ("code" in error && error.code == "GGT_DUPLICATE_BACKGROUND_ACTION_ID" && options?.id && options.onDuplicateID == "ignore") {
-      return new BackgroundActionHandle(connection, options.id, options);
+    if (isIgnorableDuplicateError(error, singleOptions)) {
+      return new BackgroundActionHandle(connection, singleOptions.id!, singleOptions, action);
     }
     throw error;
   }
 };
+
+/**
+ * Enqueues many invocations of the same action as separate background actions, batching them together into as few requests as possible.
+ *
+ * Returns a handle for each enqueued background action in the order the invocations were given. Throws a `GadgetErrorGroup` if any invocations fail to enqueue, which holds the handles for the invocations that were enqueued successfully, and the index in `variablesList` of the invocation each error occurred for in its `indexes`.
+ **/
+export const enqueueManyActionRunner = async <Action extends AnyActionFunction>(
+  connection: GadgetConnection,
+  action: Action,
+  variablesList: Action["variablesType"][],
+  options: EnqueueManyBackgroundActionOptions<Action> = {}
+): Promise<BackgroundActionHandle<Action>[]> => {
+  const { id, chunkSize = DEFAULT_ENQUEUE_CHUNK_SIZE, ...sharedOptions } = options;
+  if (chunkSize < 1) throw new GadgetClientError("Can't enqueue background actions with a chunkSize less than 1");
+
+  const handles: BackgroundActionHandle<Action>[] = [];
+  const errors: GadgetError[] = [];
+  const errorIndexes: number[] = [];
+
+  for (let start = 0; start < variablesList.length; start += chunkSize) {
+    const invocations = variablesList.slice(start, start + chunkSize).map((variables, index) => {
+      const invocationOptions: EnqueueBackgroundActionOptions<Action> = { ...sharedOptions };
+      if (id) invocationOptions.id = id(variables, start + index);
+      return { variables: normalizeEnqueueVariables(action, variables), options: invocationOptions };
+    });
+
+    const plan = enqueueManyActionOperation(action.operationName, invocations, action.namespace);
+    const response = await connection.currentClient.mutation(plan.query, plan.variables, sharedOptions).toPromise();
+
+    const dataPath = enqueueDataPath(action);
+    invocations.forEach(({ options: invocationOptions }, index) => {
+      try {
+        const result = assertMutationSuccess(response, [...dataPath.slice(0, -1), enqueueInvocationAlias(index)]);
+        handles.push(new BackgroundActionHandle(connection, result.backgroundAction.id, invocationOptions, action));
+      } catch (error: any) {
+        if (isIgnorableDuplicateError(error, invocationOptions)) {
+          handles.push(new BackgroundActionHandle(connection, invocationOptions.id!, invocationOptions, action));
+        } else {
+          errors.push(error);
+          errorIndexes.push(start + index);
+        }
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new GadgetErrorGroup(errors, handles, errorIndexes);
+  }
+
+  return handles;
+};
@@ -4,6 +4,7 @@ import { DataHydrator } from "./DataHydrator.js";
 import { ActionFunctionMetadata, AnyActionFunction } from "./GadgetFunctions.js";
 import type { RecordShape } from "./GadgetRecord.js";
 import { GadgetRecord } from "./GadgetRecord.js";
+import type { AggregateGroup } from "./types.js";
 import { VariablesOptions } from "./types.js";
 
 /**
@@ -97,6 +98,32 @@ export class GadgetWebsocketConnectionTimeoutError extends Error {
   causedByClient = false;
 }
 
+/**
+ * A client error when a transaction runs for longer than its `timeoutMs` option allows, or is aborted by its `signal` option. The transaction is rolled back before this error is thrown.
+ */
+export class GadgetTransactionTimeoutError extends Error {
+  code = "GGT_TRANSACTION_TIMEOUT";
+  name = "TransactionTimeoutError";
+
+  /** @private */
+  statusCode = 500;
+  /** @private */
+  causedByClient = true;
+}
+
+/**
+ * A client error when waiting for the result of a background action takes longer than the `timeoutMs` option allows, or is aborted by the `signal` option. The background action itself isn't cancelled.
+ */
+export class GadgetBackgroundActionTimeoutError extends Error {
+  code = "GGT_BACKGROUND_ACTION_TIMEOUT";
+  name = "BackgroundActionTimeoutError";
+
+  /** @private */
+  statusCode = 500;
+  /** @private */
+  causedByClient = true;
+}
+
 /**
  * A Gadget API error when there are more requests sent in the alloted time window then permitted
  */
@@ -194,7 +221,9 @@ export class GadgetErrorGroup<Result> extends Error {
     /** The list of inner errors that occurred */
     public readonly errors: GadgetError[],
     /* Any objects that were successfully processed during the bulk operation (the ones that didn't throw errors) */
-    public readonly results: Result[] | undefined
+    public readonly results: Result[] | undefined,
+    /** The index of the input that each of the inner errors occurred for, in the same order as `errors`, for bulk operations that process a list of inputs */
+    public readonly indexes?: number[]
   ) {
     super(errors.length > 1 ? "Multiple errors occurred" : errors[0].message);
   }
@@ -223,6 +252,8 @@ export type GadgetError =
   | GadgetNotFoundError
   | GadgetUnexpectedCloseError
   | GadgetWebsocketConnectionTimeoutError
+  | GadgetTransactionTimeoutError
+  | GadgetBackgroundActionTimeoutError
   | GadgetErrorGroup<any>;
 
 export function assert<T>(value: T | undefined | null, message?: string): T {
@@ -393,6 +424,17 @@ export const hydrateConnection = <Shape extends RecordShape = any>(response: Res
   return hydrateRecordArray<Shape>(response, nodes);
 };
 
+/** Fill in the aggregates an aggregate operation didn't select for each group, so every group has the same shape */
+export const aggregateGroups = <FieldT extends string = string>(groups: Record<string, any>[]): AggregateGroup<FieldT>[] =>
+  groups.map((group) => ({
+    group: group.group ?? {},
+    count: group.count,
+    sum: group.sum ?? {},
+    avg: group.avg ?? {},
+    min: group.min ?? {},
+    max: group.max ?? {},
+  }));
+
 export const toPrimitiveObject = (value: any): any => {
   if (value != null && typeof value.toJSON === "function") value = value.toJSON();
   if (value === undefined) return undefined;
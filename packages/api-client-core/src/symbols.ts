@@ -0,0 +1,2 @@
+/** The key under which an urql client created by a `GadgetConnection` stores the connection that created it */
+export const $gadgetConnection = Symbol.for("gadget/connection");
@@ -1,7 +1,14 @@
 import { OperationContext } from "@urql/core";
 import type { VariableOptions } from "tiny-graphql-query-compiler";
 import type { FieldSelection } from "./FieldSelection.js";
-import type { ActionFunction, AnyActionFunction, BulkActionFunction, GlobalActionFunction } from "./GadgetFunctions.js";
+import type {
+  ActionFunction,
+  ActionFunctionMetadata,
+  AnyActionFunction,
+  BulkActionFunction,
+  GlobalActionFunction,
+} from "./GadgetFunctions.js";
+import type { GadgetRecord, RecordShape } from "./GadgetRecord.js";
 
 /**
  * Limit the keys in T to only those that also exist in U. AKA Subset or Intersection.
@@ -48,6 +55,35 @@ export interface BaseFindOptions<SelectionType = any> {
   live?: boolean;
 }
 
+/**
+ * A record as an action is expected to return it. Only the fields that the action is expected to change need to be included, alongside the record's `id`.
+ */
+export type OptimisticRecord = { id: string } & Record<string, any>;
+
+/**
+ * Describes the options actions accept for updating cached query results before the action completes
+ */
+export interface OptimisticActionOptions {
+  /**
+   * Produce the record the action is expected to return from the GraphQL variables the action is run with, or a list of records for bulk actions. The record is applied to cached query results right away, and rolled back if the action fails.
+   * Requires the `normalizedCache` client option, as records can only be updated in place in a normalized cache.
+   */
+  optimistic?: (variables: Record<string, any>) => OptimisticRecord | OptimisticRecord[] | null | undefined;
+}
+
+/** Whether an upsert created a new record or updated an existing one */
+export type UpsertOutcome = "created" | "updated";
+
+/**
+ * Describes the options upsert actions accept for finding out whether they created or updated the record
+ */
+export interface UpsertActionOptions {
+  /**
+   * Called with whether the upsert created a new record or updated an existing one, once it succeeds. The outcome comes from the result type the API returns for the upsert.
+   */
+  onUpsertOutcome?: (outcome: UpsertOutcome) => void;
+}
+
 /**
  * Get any keys of `Selection` that are not mapped to `never`
  */
@@ -632,6 +668,51 @@ export interface FindManyOptions extends BaseFindOptions {
   last?: number | null;
 }
 
+/** The options for counting the records of a model, typed against the model's filter type */
+export interface CountOptions<FilterT = AnyFilter | AnyFilter[]> {
+  /** Only count records which match the given set of filters */
+  filter?: FilterT | null;
+  /** Only count records which match this given search string */
+  search?: string | null;
+  /** Turn on live query mode, where the count updates when records change on the backend */
+  live?: boolean;
+}
+
+/** The options for aggregating the records of a model, typed against the model's filter type and field names */
+export interface AggregateOptions<FilterT = AnyFilter | AnyFilter[], FieldT extends string = string> extends CountOptions<FilterT> {
+  /** Aggregate records into one group for each distinct combination of values of these fields. Without it, every matching record is aggregated into one group. */
+  groupBy?: FieldT[] | null;
+  /** Fields to sum the values of in each group */
+  sum?: FieldT[] | null;
+  /** Fields to average the values of in each group */
+  avg?: FieldT[] | null;
+  /** Fields to find the smallest value of in each group */
+  min?: FieldT[] | null;
+  /** Fields to find the largest value of in each group */
+  max?: FieldT[] | null;
+}
+
+/** One group of records aggregated by an aggregate operation */
+export interface AggregateGroup<FieldT extends string = string> {
+  /** The values of the `groupBy` fields shared by the records in this group. Empty when not grouping. */
+  group: Partial<Record<FieldT, any>>;
+  /** How many records are in this group */
+  count: number;
+  /** The sum of the values of each `sum` field across this group */
+  sum: Partial<Record<FieldT, number | null>>;
+  /** The average of the values of each `avg` field across this group */
+  avg: Partial<Record<FieldT, number | null>>;
+  /** The smallest value of each `min` field across this group */
+  min: Partial<Record<FieldT, any>>;
+  /** The largest value of each `max` field across this group */
+  max: Partial<Record<FieldT, any>>;
+}
+
+/** The type of the `filter` option a find operation accepts, for typing counts and aggregates against a model's filters */
+export type FilterOptionType<OptionsT> = OptionsT extends { filter?: infer FilterT }
+  ? Exclude<FilterT, null | undefined>
+  : AnyFilter | AnyFilter[];
+
 /** The options a record find operation takes that can return many records */
 export type FindFilteredOptions = {
   /** Return only the given fields on the backend record (and related records) */
@@ -729,6 +810,28 @@ export interface InternalFindManyOptions extends InternalFindListOptions {
   before?: string | null;
 }
 
+/**
+ * Options for exporting the records of a model from an InternalModelManager
+ * Exports are returned as a web `ReadableStream`. In Node, wrap it with `Readable.fromWeb` from `node:stream` to get a `Readable`.
+ **/
+export interface InternalExportOptions extends InternalFindListOptions {
+  /**
+   * The format to export records in. `ndjson` writes one JSON object per line. `csv` writes a header row followed by one row per record, with nested fields flattened into dot separated columns like `author.name`.
+   * Defaults to `ndjson`
+   **/
+  format?: "ndjson" | "csv";
+  /**
+   * The columns to write to a CSV export, as dot separated paths to the values within each record, like `author.name`. Values of the records that aren't in one of these columns are left out of the export.
+   * Defaults to the columns found in the first page of records, in the order their fields were selected. The export fails if a later record has a value for a column that isn't one of these, like the fields of a JSON field that was null in every record of the first page.
+   **/
+  columns?: string[];
+  /**
+   * How many records to request from the API at once
+   * Defaults to 250
+   **/
+  pageSize?: number;
+}
+
 /** The options an internal record mutation takes */
 export type InternalMutationOptions = {
   /**
@@ -738,6 +841,60 @@ export type InternalMutationOptions = {
   select?: InternalFieldSelection;
 };
 
+/** Options for upserting a record with an InternalModelManager */
+export interface InternalUpsertOptions {
+  /**
+   * The fields to match an existing record on. The record is updated if one already exists with the same values for these fields, and created otherwise.
+   * Defaults to matching on `id`
+   *
+   * @example
+   * {
+   *   on: ["email"]
+   * }
+   **/
+  on?: string[];
+}
+
+/** The record an InternalModelManager upsert wrote, and whether it was created or updated */
+export interface InternalUpsertResult<Shape extends RecordShape = RecordShape> {
+  record: GadgetRecord<Shape>;
+  outcome: UpsertOutcome;
+}
+
+/** Options for the bulk import functions on an InternalModelManager */
+export interface InternalBulkImportOptions {
+  /**
+   * How many records to send to the API in each request
+   * Defaults to 100
+   **/
+  chunkSize?: number;
+  /**
+   * How many requests to run at once
+   * Defaults to 4
+   **/
+  concurrency?: number;
+}
+
+/** Options for upserting many records with an InternalModelManager */
+export interface InternalBulkUpsertOptions extends InternalBulkImportOptions {
+  /**
+   * The fields to match existing records on. A record is updated if one already exists with the same values for these fields, and created otherwise.
+   * Defaults to matching on `id`
+   *
+   * @example
+   * {
+   *   onConflict: ["email"]
+   * }
+   **/
+  onConflict?: string[];
+}
+
+/** Options for counting the records of a model with an InternalModelManager */
+export type InternalCountOptions = Pick<InternalFindListOptions, "search" | "filter">;
+
+/** Options for aggregating the records of a model with an InternalModelManager */
+export type InternalAggregateOptions = InternalCountOptions & Omit<AggregateOptions, keyof CountOptions>;
+
 /**
  * @private
  */
@@ -860,6 +1017,141 @@ export type EnqueueBackgroundActionOptions<Action extends AnyActionFunction> = {
   onDuplicateID?: "ignore" | "error";
 } & Partial<OperationContext>;
 
+/**
+ * Options for governing how many invocations of the same action are enqueued at once
+ */
+export type EnqueueManyBackgroundActionOptions<Action extends AnyActionFunction> = Omit<EnqueueBackgroundActionOptions<Action>, "id"> & {
+  /**
+   * A function returning the unique identifier to use for each enqueued background action. Must return an ID that is unique among all other background actions within this environment. If not set, unique IDs will be autogenerated and returned.
+   *
+   * Combine with `onDuplicateID: "ignore"` to make enqueuing the same invocations more than once safe.
+   *
+   * @example
+   * id: (variables, index) => `import-${variables.widget.sku}`
+   **/
+  id?: (variables: Action["variablesType"], index: number) => string;
+
+  /**
+   * How many background actions to enqueue with each request to the Gadget API. Default is 100.
+   */
+  chunkSize?: number;
+};
+
+/** The final state of a background action that is no longer waiting to run or running */
+export type BackgroundActionOutcome = "completed" | "failed" | "cancelled";
+
+/**
+ * Where a background action is in its lifecycle
+ * - `waiting` actions are queued and haven't been attempted yet
+ * - `running` actions are being attempted right now
+ * - `retrying` actions have failed at least once and are waiting to be attempted again
+ * - `completed`, `failed` and `cancelled` actions have finished, and won't be attempted again
+ */
+export type BackgroundActionState = "waiting" | "running" | "retrying" | BackgroundActionOutcome;
+
+/** The current state of a background action */
+export interface BackgroundActionStatus {
+  /** The ID of the background action */
+  id: string;
+  /** Where the background action is in its lifecycle, @see BackgroundActionState */
+  state: BackgroundActionState;
+  /** How the background action finished, or `null` if it hasn't finished yet */
+  outcome: BackgroundActionOutcome | null;
+}
+
+/** One attempt at running a background action */
+export interface BackgroundActionAttempt {
+  /** The ID of this attempt */
+  id: string;
+  /** Which attempt this was, starting from `1` for the first attempt */
+  attemptNumber: number;
+  /** If this attempt is still running, or how it finished */
+  state: "running" | "succeeded" | "failed";
+  /** When this attempt started */
+  startedAt: Date;
+  /** When this attempt finished, or `null` if it is still running */
+  finishedAt: Date | null;
+  /** The error this attempt failed with, if it failed */
+  error: { message: string; code: string } | null;
+}
+
+/**
+ * Options for governing how the client waits for a background action to finish
+ */
+export interface BackgroundActionResultOptions {
+  /**
+   * How the client should find out that the background action has finished.
+   * - `subscription` listens for the outcome over the websocket connection to the Gadget API
+   * - `poll` periodically requests the state of the background action over HTTP
+   *
+   * If not set, `subscription` is used when a `WebSocket` implementation is available, and `poll` otherwise.
+   */
+  mode?: "subscription" | "poll";
+
+  /**
+   * How long to wait between each request for the state of the background action when polling, in milliseconds. Default is 1000.
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * How long to wait for the background action to finish before giving up and throwing a `GadgetBackgroundActionTimeoutError`, in milliseconds. The background action keeps running. If not set, waits until the action finishes.
+   */
+  timeoutMs?: number;
+
+  /**
+   * An `AbortSignal` to stop waiting for the background action with. Aborting it throws a `GadgetBackgroundActionTimeoutError`, and the background action keeps running.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with the status of the background action each time it is fetched while waiting, including the final status once the action has finished.
+   */
+  onStatus?: (status: BackgroundActionStatus) => void;
+}
+
+/**
+ * The result of a background action once it has finished, given the options it was waited for with
+ * Model actions return the record they selected (or records for bulk actions), actions with a return type return that, and global actions return their result.
+ */
+export type BackgroundActionResult<Action extends AnyActionFunction, Options = Record<string, never>> = Action extends {
+  hasReturnType: true;
+}
+  ? any
+  : Action extends ActionFunctionMetadata<any, any, any, infer SchemaT, infer DefaultsT, infer IsBulk>
+  ? DefaultsT extends null | undefined
+    ? void
+    : IsBulk extends true
+    ? BackgroundActionRecord<SchemaT, DefaultsT, Options>[]
+    : BackgroundActionRecord<SchemaT, DefaultsT, Options>
+  : Action extends (...args: any[]) => Promise<infer Result>
+  ? Result
+  : any;
+
+type BackgroundActionRecord<SchemaT, DefaultsT, Options> = GadgetRecord<
+  // selecting from an `any` schema recurses forever, so untyped actions return untyped records
+  0 extends 1 & SchemaT
+    ? any
+    : Select<
+        Exclude<SchemaT, null | undefined>,
+        Extract<
+          Options extends { select: infer Selection } ? (Selection extends FieldSelection ? Selection : DefaultsT) : DefaultsT,
+          FieldSelection
+        >
+      >
+>;
+
+/** The selection the result of an action can be selected with, or `never` for global actions which have no selection */
+export type ActionResultSelection<Action extends AnyActionFunction> = Action extends ActionFunctionMetadata<
+  any,
+  any,
+  infer SelectionT,
+  any,
+  any,
+  any
+>
+  ? SelectionT
+  : never;
+
 export type ActionFunctionOptions<Action extends AnyActionFunction> = Action extends ActionFunction<infer Options, any, any, any, any>
   ? Options
   : Action extends BulkActionFunction<infer Options, any, any, any, any>
@@ -0,0 +1,31 @@
+import { camelize } from "./support.js";
+import type { UpsertOutcome } from "./types.js";
+
+/**
+ * Upsert actions run either the model's create action or its update action, and return the result of whichever one ran
+ **/
+export const isUpsertOperation = (operation: string, modelApiIdentifier: string) => operation == `upsert${camelize(modelApiIdentifier)}`;
+
+/**
+ * The typenames of the results an upsert returns when it creates or updates a record. Results of actions on namespaced models have the namespace at the start of their typename, like `BlogCreatePostResult`.
+ **/
+export const upsertResultTypenames = (modelApiIdentifier: string, options?: { internal?: boolean; namespace?: string | null }) => {
+  const typenameFor = (action: "create" | "update") => {
+    const operation = `${action}${camelize(modelApiIdentifier)}`;
+    return camelize(options?.namespace ? `${options.namespace}_${operation}` : operation) + "Result";
+  };
+  const prefix = options?.internal ? "Internal" : "";
+  return {
+    created: `${prefix}${typenameFor("create")}`,
+    updated: `${prefix}${typenameFor("update")}`,
+  };
+};
+
+/**
+ * Upserts return the result type of whichever of the create or update ran, so the result's `__typename` says which one it was
+ **/
+export const upsertOutcomeOf = (
+  result: { __typename?: string },
+  modelApiIdentifier: string,
+  options?: { internal?: boolean; namespace?: string | null }
+): UpsertOutcome => (result.__typename == upsertResultTypenames(modelApiIdentifier, options).created ? "created" : "updated");
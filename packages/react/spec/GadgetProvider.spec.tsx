@@ -1,10 +1,10 @@
 // eslint-disable @typescript-eslint/ban-ts-comment
 import type { AnyClient } from "@gadgetinc/api-client-core";
-import { GadgetConnection } from "@gadgetinc/api-client-core";
-import { renderHook } from "@testing-library/react";
+import { BrowserSessionStorageType, GadgetConnection } from "@gadgetinc/api-client-core";
+import { act, renderHook } from "@testing-library/react";
 import type { ReactNode } from "react";
-import React from "react";
-import { Provider, useApi, useConnection } from "../src/GadgetProvider.js";
+import React, { useContext } from "react";
+import { GadgetUrqlClientContext, Provider, useApi, useConnection } from "../src/GadgetProvider.js";
 import { mockUrqlClient } from "./testWrappers.js";
 
 describe("GadgetProvider", () => {
@@ -86,4 +86,26 @@ describe("GadgetProvider", () => {
               The <Provider /> component is currently being passed a value, like <Provider value={api.connection.currentClient}/>. Please update this to <Provider api={api} />."
     `);
   });
+
+  test("the provider passes down the connection's new urql client when the session is cleared", () => {
+    const connection = new GadgetConnection({
+      endpoint: "https://whatever.gadget.app/endpoint",
+      authenticationMode: { browserSession: { storageType: BrowserSessionStorageType.Temporary, initialToken: "token-123" } },
+    });
+    mockApiClient = { connection } as any;
+
+    const { result } = renderHook(() => useContext(GadgetUrqlClientContext), {
+      wrapper: (props: { children: ReactNode }) => {
+        return <Provider api={mockApiClient}>{props.children}</Provider>;
+      },
+    });
+    const initialClient = result.current;
+
+    act(() => {
+      connection.clearSession();
+    });
+
+    expect(result.current).not.toBe(initialClient);
+    expect(result.current).toBe(connection.currentClient);
+  });
 });
@@ -147,7 +147,47 @@ describe("useSignOut", () => {
       expect(mockNavigate).toHaveBeenCalledTimes(0);
     });
 
+    test("it clears the session once the user is signed out", async () => {
+      const clearSession = jest.spyOn(fullAuthApi.connection, "clearSession");
+      const { result, rerender } = renderHook(() => useSignOut({ redirectOnSuccess: false }), {
+        wrapper: MockClientWrapper(fullAuthApi, undefined, {
+          navigate: customNavigate ? mockNavigate : undefined,
+        }),
+      });
+
+      expectMockSignedInUser();
+      rerender();
+
+      let mutationPromise: any;
+      await act(async () => {
+        mutationPromise = result.current();
+      });
+
+      expect(clearSession).not.toHaveBeenCalled();
+      mockUrqlClient.executeMutation.pushResponse("signOutUser", {
+        data: {
+          success: true,
+          signOutUser: {
+            success: true,
+            user: {
+              id: "123",
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+
+      await act(async () => {
+        await mutationPromise;
+      });
+
+      expect(clearSession).toHaveBeenCalledTimes(1);
+      clearSession.mockRestore();
+    });
+
     test("it does not redirect and throws when an error occurs during signOut", async () => {
+      const clearSession = jest.spyOn(fullAuthApi.connection, "clearSession");
       let caughtError = null;
       try {
         const { result, rerender } = renderHook(() => useSignOut(), {
@@ -191,6 +231,8 @@ describe("useSignOut", () => {
 
       expect(mockNavigate).toHaveBeenCalledTimes(0);
       expect(caughtError).toMatchInlineSnapshot(`[ErrorWrapper: [GraphQL] GGT_INTERNAL_ERROR: User could not be signed out.]`);
+      expect(clearSession).not.toHaveBeenCalled();
+      clearSession.mockRestore();
     });
 
     test("it throws an error when there is no signed in user", async () => {
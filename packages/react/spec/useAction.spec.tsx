@@ -1,15 +1,19 @@
-import type { GadgetRecord } from "@gadgetinc/api-client-core";
-import { act, renderHook } from "@testing-library/react";
+import type { AnyClient, GadgetRecord } from "@gadgetinc/api-client-core";
+import { act, renderHook, waitFor } from "@testing-library/react";
 
 import type { IsExact } from "conditional-type-checks";
 import { assert } from "conditional-type-checks";
+import nock from "nock";
 import React from "react";
 import type { AnyVariables } from "urql";
+import { MockWidgetUpdateAction } from "../../api-client-core/spec/mockActions.js";
 import { Provider } from "../src/GadgetProvider.js";
 import { useAction } from "../src/index.js";
+import { useGadgetQuery } from "../src/useGadgetQuery.js";
 import type { ErrorWrapper } from "../src/utils.js";
 import { fullAuthApi, relatedProductsApi } from "./apis.js";
-import { MockClientWrapper, createMockUrqlClient, mockUrqlClient } from "./testWrappers.js";
+import { LiveClientWrapper, MockClientWrapper, createMockUrqlClient, mockUrqlClient } from "./testWrappers.js";
+import { normalizedCacheApi, widgetsQuery, widgetsResponse } from "./utils.js";
 
 describe("useAction", () => {
   // these functions are typechecked but never run to avoid actually making API calls
@@ -580,4 +584,109 @@ describe("useAction", () => {
 
     expect(result.current[0]).toBe(beforeObject);
   });
+
+  describe("optimistic updates", () => {
+    let api: AnyClient;
+    beforeEach(() => {
+      nock.cleanAll();
+      api = normalizedCacheApi();
+    });
+
+    afterEach(() => {
+      expect(nock.pendingMocks()).toEqual([]);
+    });
+
+    const renderWidgets = () =>
+      renderHook(
+        () => {
+          const [widgets] = useGadgetQuery({ query: widgetsQuery });
+          const [result, updateWidget] = useAction(MockWidgetUpdateAction, {
+            optimistic: (variables: any) => ({ id: variables.id, name: variables.widget.name }),
+          });
+          return { names: widgets.data?.widgets.edges.map((edge: any) => edge.node.name), result, updateWidget };
+        },
+        { wrapper: LiveClientWrapper(api) }
+      );
+
+    test("shows the record produced by the optimistic option in cached queries until the action completes", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=Widgets")
+        .reply(200, widgetsResponse("first"))
+        .post("/api/graphql?operation=updateWidget")
+        .delay(50)
+        .reply(200, {
+          data: {
+            updateWidget: {
+              __typename: "UpdateWidgetResult",
+              success: true,
+              errors: null,
+              widget: { __typename: "Widget", id: "1", name: "saved" },
+            },
+          },
+        });
+
+      const { result } = renderWidgets();
+      await waitFor(() => expect(result.current.names).toEqual(["first"]));
+
+      let mutationPromise: any;
+      act(() => {
+        mutationPromise = result.current.updateWidget({ id: "1", widget: { name: "renamed" } });
+      });
+      await waitFor(() => expect(result.current.names).toEqual(["renamed"]));
+
+      await act(async () => {
+        const promiseResult = await mutationPromise;
+        expect(promiseResult.data.name).toEqual("saved");
+      });
+      await waitFor(() => expect(result.current.names).toEqual(["saved"]));
+    });
+
+    test("rolls back the record produced by the optimistic option if the action fails", async () => {
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=Widgets")
+        .reply(200, widgetsResponse("first"))
+        .post("/api/graphql?operation=updateWidget")
+        .delay(50)
+        .reply(200, {
+          data: {
+            updateWidget: {
+              __typename: "UpdateWidgetResult",
+              success: false,
+              errors: [{ code: "GGT_UNKNOWN", message: "Something went wrong" }],
+              widget: null,
+            },
+          },
+        })
+        // failed actions don't return any records, so queries for the model are fetched again
+        .post("/api/graphql?operation=Widgets")
+        .reply(200, widgetsResponse("first"));
+
+      const { result } = renderWidgets();
+      await waitFor(() => expect(result.current.names).toEqual(["first"]));
+
+      let mutationPromise: any;
+      act(() => {
+        mutationPromise = result.current.updateWidget({ id: "1", widget: { name: "renamed" } });
+      });
+      await waitFor(() => expect(result.current.names).toEqual(["renamed"]));
+
+      await act(async () => {
+        const promiseResult = await mutationPromise;
+        expect(promiseResult.error?.message).toContain("Something went wrong");
+      });
+      await waitFor(() => expect(result.current.names).toEqual(["first"]));
+    });
+
+    test("returns the same action function when rerendered with a new optimistic function", () => {
+      const { result, rerender } = renderHook(
+        () => useAction(MockWidgetUpdateAction, { optimistic: (variables: any) => ({ id: variables.id, name: variables.widget.name }) }),
+        { wrapper: LiveClientWrapper(api) }
+      );
+
+      const updateWidget = result.current[1];
+      rerender();
+
+      expect(result.current[1]).toBe(updateWidget);
+    });
+  });
 });
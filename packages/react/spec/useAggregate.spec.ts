@@ -0,0 +1,50 @@
+import { renderHook } from "@testing-library/react";
+import type { IsExact } from "conditional-type-checks";
+import { assert } from "conditional-type-checks";
+import { useAggregate } from "../src/useAggregate.js";
+import { relatedProductsApi } from "./apis.js";
+import { MockClientWrapper, mockUrqlClient } from "./testWrappers.js";
+
+describe("useAggregate", () => {
+  // these functions are typechecked but never run to avoid actually making API calls
+  const _TestAggregateReturnsGroupsOfModelFields = () => {
+    const [{ data }] = useAggregate(relatedProductsApi.user, { groupBy: ["email"], max: ["createdAt"] });
+
+    if (data) {
+      assert<IsExact<(typeof data)[0]["count"], number>>(true);
+      data[0].group.email;
+      data[0].max.createdAt;
+    }
+  };
+
+  test("can aggregate records into groups", async () => {
+    const { result } = renderHook(() => useAggregate(relatedProductsApi.user, { groupBy: ["email"], max: ["createdAt"] }), {
+      wrapper: MockClientWrapper(relatedProductsApi),
+    });
+
+    expect(result.current[0].data).toBeUndefined();
+    expect(result.current[0].fetching).toBe(true);
+
+    expect(mockUrqlClient.executeQuery).toBeCalledTimes(1);
+
+    mockUrqlClient.executeQuery.pushResponse("usersAggregate", {
+      data: {
+        users: {
+          aggregate: [
+            { group: { email: "a@test.com" }, count: 2, max: { createdAt: "2023-01-02T00:00:00.000Z" } },
+            { group: { email: "b@test.com" }, count: 1, max: { createdAt: "2023-01-01T00:00:00.000Z" } },
+          ],
+        },
+      },
+      stale: false,
+      hasNext: false,
+    });
+
+    expect(result.current[0].data).toEqual([
+      { group: { email: "a@test.com" }, count: 2, sum: {}, avg: {}, min: {}, max: { createdAt: "2023-01-02T00:00:00.000Z" } },
+      { group: { email: "b@test.com" }, count: 1, sum: {}, avg: {}, min: {}, max: { createdAt: "2023-01-01T00:00:00.000Z" } },
+    ]);
+    expect(result.current[0].fetching).toBe(false);
+    expect(result.current[0].error).toBeFalsy();
+  });
+});
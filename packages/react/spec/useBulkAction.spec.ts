@@ -1,12 +1,16 @@
-import type { GadgetRecord } from "@gadgetinc/api-client-core";
-import { renderHook } from "@testing-library/react";
+import type { AnyClient, GadgetRecord } from "@gadgetinc/api-client-core";
+import { renderHook, waitFor } from "@testing-library/react";
 import type { IsExact } from "conditional-type-checks";
 import { assert } from "conditional-type-checks";
+import nock from "nock";
 import { act } from "react-dom/test-utils";
+import { MockBulkUpdateWidgetAction } from "../../api-client-core/spec/mockActions.js";
 import { useBulkAction } from "../src/index.js";
+import { useGadgetQuery } from "../src/useGadgetQuery.js";
 import type { ErrorWrapper } from "../src/utils.js";
 import { bulkExampleApi } from "./apis.js";
-import { MockClientWrapper, mockUrqlClient } from "./testWrappers.js";
+import { LiveClientWrapper, MockClientWrapper, mockUrqlClient } from "./testWrappers.js";
+import { normalizedCacheApi, widgetsQuery, widgetsResponse } from "./utils.js";
 
 describe("useBulkAction", () => {
   // these functions are typechecked but never run to avoid actually making API calls
@@ -424,4 +428,89 @@ describe("useBulkAction", () => {
 
     expect(result.current[0]).toBe(beforeObject);
   });
+
+  describe("optimistic updates", () => {
+    let api: AnyClient;
+    beforeEach(() => {
+      nock.cleanAll();
+      api = normalizedCacheApi();
+    });
+
+    afterEach(() => {
+      expect(nock.pendingMocks()).toEqual([]);
+    });
+
+    test("shows the records produced by the optimistic option in cached queries, and rolls them back if the action fails", async () => {
+      let variables: any;
+      nock("https://someapp.gadget.app")
+        .post("/api/graphql?operation=Widgets")
+        .reply(200, widgetsResponse("first", "second"))
+        .post("/api/graphql?operation=bulkUpdateWidgets")
+        .delay(50)
+        .reply(200, (_uri, body: any) => {
+          variables = body.variables;
+          return {
+            data: {
+              bulkUpdateWidgets: {
+                __typename: "BulkUpdateWidgetsResult",
+                success: false,
+                errors: [{ code: "GGT_UNKNOWN", message: "Something went wrong" }],
+                widgets: null,
+              },
+            },
+          };
+        })
+        // failed actions don't return any records, so queries for the model are fetched again
+        .post("/api/graphql?operation=Widgets")
+        .reply(200, widgetsResponse("first", "second"));
+
+      const { result } = renderHook(
+        () => {
+          const [widgets] = useGadgetQuery({ query: widgetsQuery });
+          const [, bulkUpdateWidgets] = useBulkAction(MockBulkUpdateWidgetAction, {
+            optimistic: (variables: any) => variables.inputs.map((input: any) => ({ id: input.id, name: input.widget.name })),
+          });
+          return { names: widgets.data?.widgets.edges.map((edge: any) => edge.node.name), bulkUpdateWidgets };
+        },
+        { wrapper: LiveClientWrapper(api) }
+      );
+      await waitFor(() => expect(result.current.names).toEqual(["first", "second"]));
+
+      let mutationPromise: any;
+      act(() => {
+        mutationPromise = result.current.bulkUpdateWidgets([
+          { id: "1", widget: { name: "one" } },
+          { id: "2", widget: { name: "two" } },
+        ]);
+      });
+      await waitFor(() => expect(result.current.names).toEqual(["one", "two"]));
+
+      await act(async () => {
+        const promiseResult = await mutationPromise;
+        expect(promiseResult.error?.message).toContain("Something went wrong");
+      });
+      await waitFor(() => expect(result.current.names).toEqual(["first", "second"]));
+      expect(variables).toEqual({
+        inputs: [
+          { id: "1", widget: { name: "one" } },
+          { id: "2", widget: { name: "two" } },
+        ],
+      });
+    });
+
+    test("returns the same action function when rerendered with a new optimistic function", () => {
+      const { result, rerender } = renderHook(
+        () =>
+          useBulkAction(MockBulkUpdateWidgetAction, {
+            optimistic: (variables: any) => variables.inputs.map((input: any) => ({ id: input.id })),
+          }),
+        { wrapper: LiveClientWrapper(api) }
+      );
+
+      const bulkUpdateWidgets = result.current[1];
+      rerender();
+
+      expect(result.current[1]).toBe(bulkUpdateWidgets);
+    });
+  });
 });
@@ -0,0 +1,82 @@
+import { renderHook } from "@testing-library/react";
+import type { IsExact } from "conditional-type-checks";
+import { assert } from "conditional-type-checks";
+import { GraphQLError } from "graphql";
+import { useCount } from "../src/useCount.js";
+import type { ErrorWrapper } from "../src/utils.js";
+import { relatedProductsApi } from "./apis.js";
+import { MockClientWrapper, mockUrqlClient } from "./testWrappers.js";
+
+describe("useCount", () => {
+  // these functions are typechecked but never run to avoid actually making API calls
+  const _TestCountReturnsANumber = () => {
+    const [{ data, fetching, error }, refresh] = useCount(relatedProductsApi.user, { filter: { email: { equals: "test@test.com" } } });
+
+    assert<IsExact<typeof fetching, boolean>>(true);
+    assert<IsExact<typeof data, undefined | number>>(true);
+    assert<IsExact<typeof error, ErrorWrapper | undefined>>(true);
+
+    refresh();
+  };
+
+  test("can count records", async () => {
+    const { result } = renderHook(() => useCount(relatedProductsApi.user, { search: "test" }), {
+      wrapper: MockClientWrapper(relatedProductsApi),
+    });
+
+    expect(result.current[0].data).toBeUndefined();
+    expect(result.current[0].fetching).toBe(true);
+    expect(result.current[0].error).toBeFalsy();
+
+    expect(mockUrqlClient.executeQuery).toBeCalledTimes(1);
+    expect(mockUrqlClient.executeQuery.mock.calls[0][0].variables).toEqual({ search: "test" });
+
+    mockUrqlClient.executeQuery.pushResponse("usersCount", {
+      data: {
+        users: {
+          count: 42,
+        },
+      },
+      stale: false,
+      hasNext: false,
+    });
+
+    expect(result.current[0].data).toEqual(42);
+    expect(result.current[0].fetching).toBe(false);
+    expect(result.current[0].error).toBeFalsy();
+  });
+
+  test("returns zero counts", async () => {
+    const { result } = renderHook(() => useCount(relatedProductsApi.user), { wrapper: MockClientWrapper(relatedProductsApi) });
+
+    mockUrqlClient.executeQuery.pushResponse("usersCount", {
+      data: {
+        users: {
+          count: 0,
+        },
+      },
+      stale: false,
+      hasNext: false,
+    });
+
+    expect(result.current[0].data).toEqual(0);
+    expect(result.current[0].error).toBeFalsy();
+  });
+
+  test("returns an error when the count fails", async () => {
+    const { result } = renderHook(() => useCount(relatedProductsApi.user), { wrapper: MockClientWrapper(relatedProductsApi) });
+
+    mockUrqlClient.executeQuery.pushResponse("usersCount", {
+      data: null,
+      error: {
+        graphQLErrors: [new GraphQLError("Internal Error")],
+      } as any,
+      stale: false,
+      hasNext: false,
+    });
+
+    expect(result.current[0].data).toBeUndefined();
+    expect(result.current[0].fetching).toBe(false);
+    expect(result.current[0].error).toBeTruthy();
+  });
+});
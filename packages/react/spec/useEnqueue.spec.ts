@@ -0,0 +1,248 @@
+import type { AnyClient } from "@gadgetinc/api-client-core";
+import { $gadgetConnection, GadgetConnection } from "@gadgetinc/api-client-core";
+import { renderHook } from "@testing-library/react";
+import { act } from "react-dom/test-utils";
+import { MockGlobalAction, MockWidgetCreateAction } from "../../api-client-core/spec/mockActions.js";
+import { useEnqueue } from "../src/index.js";
+import { MockClientWrapper, mockUrqlClient } from "./testWrappers.js";
+
+describe("useEnqueue", () => {
+  let api: AnyClient;
+  beforeEach(() => {
+    api = { connection: new GadgetConnection({ endpoint: "https://someapp.gadget.app" }) } as any;
+    (mockUrqlClient as any)[$gadgetConnection] = api.connection;
+  });
+
+  const enqueued = (operationName: string, id: string) => {
+    mockUrqlClient.executeMutation.pushResponse(`enqueue${operationName[0].toUpperCase()}${operationName.slice(1)}`, {
+      data: { background: { [operationName]: { success: true, errors: null, backgroundAction: { id } } } },
+      stale: false,
+      hasNext: false,
+    });
+  };
+
+  test("returns no handle, not enqueuing, not running and no error when the component is first mounted", () => {
+    const { result } = renderHook(() => useEnqueue(MockGlobalAction), { wrapper: MockClientWrapper(api) });
+
+    expect(result.current[0].handle).toBeFalsy();
+    expect(result.current[0].enqueuing).toBe(false);
+    expect(result.current[0].running).toBe(false);
+    expect(result.current[0].error).toBeFalsy();
+  });
+
+  test("returns the handle, the live status and then the result of the background action", async () => {
+    const { result } = renderHook(() => useEnqueue(MockGlobalAction, { result: { mode: "poll", pollIntervalMs: 0 } }), {
+      wrapper: MockClientWrapper(api),
+    });
+
+    let enqueuePromise: any;
+    act(() => {
+      enqueuePromise = result.current[1]({});
+    });
+
+    expect(result.current[0].enqueuing).toBe(true);
+    expect(mockUrqlClient.executeMutation).toBeCalledTimes(1);
+
+    await act(async () => {
+      enqueued("flipAllWidgets", "app-job-123");
+      const handle = await enqueuePromise;
+      expect(handle.id).toEqual("app-job-123");
+    });
+
+    expect(result.current[0].enqueuing).toBe(false);
+    expect(result.current[0].running).toBe(true);
+    expect(result.current[0].handle?.id).toEqual("app-job-123");
+
+    await act(async () => {
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", state: "running", outcome: null, result: null } },
+        stale: false,
+        hasNext: false,
+      });
+    });
+
+    expect(result.current[0].status).toEqual({ id: "app-job-123", state: "running", outcome: null });
+    expect(result.current[0].running).toBe(true);
+
+    await act(async () => {
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: {
+          backgroundAction: {
+            id: "app-job-123",
+            state: "completed",
+            outcome: "completed",
+            result: { success: true, errors: null, result: "flipped" },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+    });
+
+    expect(result.current[0].running).toBe(false);
+    expect(result.current[0].data).toEqual("flipped");
+    expect(result.current[0].status).toEqual({ id: "app-job-123", state: "completed", outcome: "completed" });
+    expect(result.current[0].error).toBeFalsy();
+  });
+
+  test("stops waiting for the background action when the component unmounts", async () => {
+    const { result, unmount } = renderHook(() => useEnqueue(MockGlobalAction, { result: { mode: "poll", pollIntervalMs: 0 } }), {
+      wrapper: MockClientWrapper(api),
+    });
+
+    let enqueuePromise: any;
+    act(() => {
+      enqueuePromise = result.current[1]({});
+    });
+    await act(async () => {
+      enqueued("flipAllWidgets", "app-job-123");
+      await enqueuePromise;
+    });
+
+    expect(mockUrqlClient.executeQuery).toBeCalledTimes(1);
+    unmount();
+
+    await act(async () => {
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", outcome: null, result: null } },
+        stale: false,
+        hasNext: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    });
+
+    expect(mockUrqlClient.executeQuery).toBeCalledTimes(1);
+  });
+
+  test("stops waiting for the previous background action when another is enqueued", async () => {
+    const { result } = renderHook(() => useEnqueue(MockGlobalAction, { result: { mode: "poll", pollIntervalMs: 0 } }), {
+      wrapper: MockClientWrapper(api),
+    });
+
+    let enqueuePromise: any;
+    act(() => {
+      enqueuePromise = result.current[1]({});
+    });
+    await act(async () => {
+      enqueued("flipAllWidgets", "app-job-1");
+      await enqueuePromise;
+    });
+
+    act(() => {
+      enqueuePromise = result.current[1]({});
+    });
+    await act(async () => {
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-1", outcome: null, result: null } },
+        stale: false,
+        hasNext: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    });
+
+    // nothing is requested about the first background action once the second one started enqueuing
+    expect(mockUrqlClient.executeQuery).toBeCalledTimes(1);
+    expect(result.current[0].enqueuing).toBe(true);
+    expect(result.current[0].status).toBeUndefined();
+  });
+
+  test("returns an error if the background action fails", async () => {
+    const { result } = renderHook(() => useEnqueue(MockWidgetCreateAction, { result: { mode: "poll" } }), {
+      wrapper: MockClientWrapper(api),
+    });
+
+    let enqueuePromise: any;
+    act(() => {
+      enqueuePromise = result.current[1]({ widget: { name: "foo" } });
+    });
+
+    await act(async () => {
+      enqueued("createWidget", "app-job-123");
+      await enqueuePromise;
+    });
+
+    await act(async () => {
+      mockUrqlClient.executeQuery.pushResponse("createWidgetBackgroundResult", {
+        data: {
+          backgroundAction: {
+            id: "app-job-123",
+            state: "failed",
+            outcome: "failed",
+            result: {
+              success: false,
+              errors: [{ code: "GGT_INVALID_RECORD", message: "Widget is invalid", validationErrors: [] }],
+              widget: null,
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+    });
+
+    expect(result.current[0].running).toBe(false);
+    expect(result.current[0].data).toBeFalsy();
+    expect(result.current[0].error?.executionErrors[0].message).toEqual("Widget is invalid");
+    expect(result.current[0].status).toEqual({ id: "app-job-123", state: "failed", outcome: "failed" });
+  });
+
+  test("keeps the last known status of the background action when the hook stops waiting for it", async () => {
+    const { result } = renderHook(() => useEnqueue(MockGlobalAction, { result: { mode: "poll", pollIntervalMs: 1000, timeoutMs: 20 } }), {
+      wrapper: MockClientWrapper(api),
+    });
+
+    let enqueuePromise: any;
+    act(() => {
+      enqueuePromise = result.current[1]({});
+    });
+    await act(async () => {
+      enqueued("flipAllWidgets", "app-job-123");
+      await enqueuePromise;
+    });
+
+    await act(async () => {
+      mockUrqlClient.executeQuery.pushResponse("flipAllWidgetsBackgroundResult", {
+        data: { backgroundAction: { id: "app-job-123", state: "running", outcome: null, result: null } },
+        stale: false,
+        hasNext: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    expect(result.current[0].running).toBe(false);
+    expect(result.current[0].error?.message).toContain("Timed out waiting for background action app-job-123");
+    expect(result.current[0].status).toEqual({ id: "app-job-123", state: "running", outcome: null });
+  });
+
+  test("returns an error and throws if the background action can't be enqueued", async () => {
+    const { result } = renderHook(() => useEnqueue(MockGlobalAction), { wrapper: MockClientWrapper(api) });
+
+    let enqueuePromise: any;
+    act(() => {
+      enqueuePromise = result.current[1]({});
+    });
+
+    await act(async () => {
+      mockUrqlClient.executeMutation.pushResponse("enqueueFlipAllWidgets", {
+        data: {
+          background: {
+            flipAllWidgets: {
+              success: false,
+              errors: [{ code: "GGT_DUPLICATE_BACKGROUND_ACTION_ID", message: "Duplicate background action ID" }],
+              backgroundAction: null,
+            },
+          },
+        },
+        stale: false,
+        hasNext: false,
+      });
+      await expect(enqueuePromise).rejects.toThrow("Duplicate background action ID");
+    });
+
+    expect(result.current[0].enqueuing).toBe(false);
+    expect(result.current[0].running).toBe(false);
+    expect(result.current[0].error?.message).toMatchInlineSnapshot(
+      `"[GraphQL] GGT_DUPLICATE_BACKGROUND_ACTION_ID: Duplicate background action ID"`
+    );
+  });
+});
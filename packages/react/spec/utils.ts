@@ -1,3 +1,5 @@
+import type { AnyClient } from "@gadgetinc/api-client-core";
+import { GadgetConnection } from "@gadgetinc/api-client-core";
 import { CombinedError } from "urql";
 import type { MockUrqlClient } from "./testWrappers.js";
 import { mockUrqlClient } from "./testWrappers.js";
@@ -75,3 +77,25 @@ export const sleep = (delay: number) => {
     setTimeout(resolve, delay);
   });
 };
+
+/** Builds a client whose connection sends real requests and keeps their results in the normalized cache, for testing hooks against the cache */
+export const normalizedCacheApi = () =>
+  ({
+    connection: new GadgetConnection({
+      endpoint: "https://someapp.gadget.app/api/graphql",
+      authenticationMode: { anonymous: true },
+      requestPolicy: "cache-first",
+      normalizedCache: true,
+    }),
+  } as unknown as AnyClient);
+
+export const widgetsQuery = `query Widgets { widgets { edges { node { id name } } } }`;
+
+export const widgetsResponse = (...names: string[]) => ({
+  data: {
+    widgets: {
+      __typename: "WidgetConnection",
+      edges: names.map((name, index) => ({ __typename: "WidgetEdge", node: { __typename: "Widget", id: String(index + 1), name } })),
+    },
+  },
+});
@@ -1,7 +1,7 @@
 import type { AnyClient, GadgetConnection } from "@gadgetinc/api-client-core";
-import { $gadgetConnection, isGadgetClient } from "@gadgetinc/api-client-core";
+import { $gadgetConnection, $modelRelationships, isGadgetClient } from "@gadgetinc/api-client-core";
 import type { ReactNode } from "react";
-import React, { useContext } from "react";
+import React, { useContext, useEffect, useReducer } from "react";
 import type { Client as UrqlClient } from "urql";
 import { Provider as UrqlProvider } from "urql";
 
@@ -95,6 +95,17 @@ const defaultRedirectOnSuccessfulSignInPath = "/";
 export function Provider(props: ProviderProps | DeprecatedProviderProps) {
   let gadgetClient: AnyClient | undefined = undefined;
 
+  // the connection swaps out its urql client when the session is cleared or changed, in this tab or another one, so re-render to pass the fresh client down
+  const api = "api" in props && isGadgetClient(props.api) ? props.api : undefined;
+  const connection = api?.connection;
+  const [, sessionChanged] = useReducer((changes: number) => changes + 1, 0);
+  useEffect(() => connection?.onSessionChange(sessionChanged), [connection]);
+
+  // the normalized cache recognizes the app's records by the relationships the generated client describes, which the connection can't see on its own
+  useEffect(() => {
+    if (api) api.connection.modelRelationships ??= api[$modelRelationships];
+  }, [api]);
+
   let urqlClient: UrqlClient;
   if ("api" in props) {
     if (!isGadgetClient(props.api)) {
@@ -37,8 +37,10 @@ export const useSignOut = (opts?: { redirectOnSuccess?: boolean; redirectToPath?
     return useCallback(async () => {
       if (!user) throw new Error("attempting to sign out when the user is not signed in");
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      await signOutAction({ id: user.id });
-    }, [user, signOutAction]);
+      const result = await signOutAction({ id: user.id });
+      // forget the signed out session so that other tabs sign out too, and data cached for the signed in user isn't shown anymore
+      if (!result.error) api.connection.clearSession();
+    }, [api, user, signOutAction]);
   } else {
     throw new Error(`missing configured signOutActionApiIdentifier '${signOutActionApiIdentifier}' on the \`api.user\` model manager.`);
   }
@@ -10,7 +10,10 @@ export * from "./auth/useSignOut.js";
 export * from "./auth/useUser.js";
 export * from "./useAction.js";
 export * from "./useActionForm.js";
+export * from "./useAggregate.js";
 export * from "./useBulkAction.js";
+export * from "./useCount.js";
+export * from "./useEnqueue.js";
 export * from "./useFetch.js";
 export * from "./useFindBy.js";
 export * from "./useFindFirst.js";
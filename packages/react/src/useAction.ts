@@ -1,6 +1,21 @@
-import type { ActionFunction, DefaultSelection, GadgetRecord, LimitToKnownKeys, Select } from "@gadgetinc/api-client-core";
-import { actionOperation, capitalizeIdentifier, disambiguateActionVariables, get, hydrateRecord } from "@gadgetinc/api-client-core";
-import { useCallback, useContext, useMemo } from "react";
+import type {
+  ActionFunction,
+  DefaultSelection,
+  GadgetRecord,
+  LimitToKnownKeys,
+  OptimisticActionOptions,
+  Select,
+} from "@gadgetinc/api-client-core";
+import {
+  actionOperation,
+  capitalizeIdentifier,
+  deleteActionContext,
+  disambiguateActionVariables,
+  get,
+  hydrateRecord,
+  optimisticActionContext,
+} from "@gadgetinc/api-client-core";
+import { useCallback, useContext, useMemo, useRef } from "react";
 import type { AnyVariables, OperationContext, UseMutationState } from "urql";
 import { GadgetUrqlClientContext } from "./GadgetProvider.js";
 import { useGadgetMutation } from "./useGadgetMutation.js";
@@ -12,7 +27,7 @@ import { ErrorWrapper, noProviderErrorMessage } from "./utils.js";
  * React hook to run a Gadget model action. `useAction` must be passed an action function from an instance of your generated API client library, like `api.user.create` or `api.blogPost.publish`. `useAction` doesn't actually run the action when invoked, but instead returns an action function as the second result for running the action in response to an event.
  *
  * @param action an action function from a model manager in your application's client, like `api.user.create`
- * @param options action options, like selecting the fields in the result
+ * @param options action options, like selecting the fields in the result, or an `optimistic` function producing the record the action is expected to return
  *
  * @example
  * ```
@@ -45,7 +60,7 @@ export const useAction = <
   Options extends F["optionsType"]
 >(
   action: F,
-  options?: LimitToKnownKeys<Options, F["optionsType"]>
+  options?: LimitToKnownKeys<Options, F["optionsType"] & OptimisticActionOptions>
 ): ActionHookResult<
   F["hasReturnType"] extends true
     ? any
@@ -56,7 +71,12 @@ export const useAction = <
 > => {
   if (!useContext(GadgetUrqlClientContext)) throw new Error(noProviderErrorMessage);
 
-  const memoizedOptions = useStructuralMemo(options);
+  // the optimistic function isn't part of the operation, so keep it out of the memoized options to avoid rebuilding the operation each render
+  const { optimistic, ...operationOptions } = (options ?? {}) as OptimisticActionOptions & Record<string, any>;
+  const memoizedOptions = useStructuralMemo(options ? operationOptions : undefined);
+  // read the latest optimistic function when the action runs, so passing a new function each render doesn't change the returned callback
+  const optimisticRef = useRef(optimistic);
+  optimisticRef.current = optimistic;
   const plan = useMemo(() => {
     return actionOperation(
       action.operationName,
@@ -88,6 +108,8 @@ export const useAction = <
           ...context,
           // Adding the model's additional typename ensures document cache will properly refresh, regardless of whether __typename was selected (and sometimes we can't even select it, like delete actions!)
           additionalTypenames: [...(context?.additionalTypenames ?? []), capitalizeIdentifier(action.modelApiIdentifier)],
+          ...optimisticActionContext(action.modelApiIdentifier, optimisticRef.current?.(variables)),
+          ...deleteActionContext(action, variables),
         });
 
         return processResult({ fetching: false, ...result }, action);
@@ -0,0 +1,60 @@
+import type { AggregateGroup, AggregateOptions, FilterOptionType, FindManyFunction } from "@gadgetinc/api-client-core";
+import { aggregateGroups, aggregateOperation, get } from "@gadgetinc/api-client-core";
+import { useMemo } from "react";
+import { useGadgetQuery } from "./useGadgetQuery.js";
+import { useStructuralMemo } from "./useStructuralMemo.js";
+import type { OptionsType, ReadHookResult, ReadOperationOptions } from "./utils.js";
+import { ErrorWrapper, useQueryArgs } from "./utils.js";
+
+/**
+ * React hook to compute aggregates over the Gadget records of a model on the backend, like the number of records and the sum, average, minimum or maximum of some fields, optionally grouped by the values of other fields. Returns a standard hook result set with a tuple of the result object with `data`, `fetching`, and `error` keys, and a `refetch` function. `data` will be an array with one `AggregateGroup` for each group of records.
+ *
+ * Pass `live: true` to keep the aggregates up to date as records are created, changed or deleted on the backend.
+ *
+ * @param manager Gadget model manager to use
+ * @param options options for filtering and searching the records to aggregate, and which aggregates to compute
+ *
+ * @example
+ *
+ * ```
+ * export function SalesByCategory() {
+ *   const [result, refresh] = useAggregate(api.order, {
+ *     groupBy: ["category"],
+ *     sum: ["total"],
+ *   });
+ *
+ *   if (result.error) return <>Error: {result.error.toString()}</>;
+ *   if (result.fetching && !result.data) return <>Fetching...</>;
+ *   if (!result.data) return <>No orders found</>;
+ *
+ *   return <>{result.data.map((group) => <div>{group.group.category}: {group.sum.total} over {group.count} orders</div>)}</>;
+ * }
+ * ```
+ */
+export const useAggregate = <
+  GivenOptions extends OptionsType, // currently necessary for Options to be a narrow type (e.g., `true` instead of `boolean`)
+  SchemaT,
+  F extends FindManyFunction<GivenOptions, any, SchemaT, any>,
+  FieldT extends string = keyof Exclude<F["schemaType"], null | undefined> & string
+>(
+  manager: { findMany: F },
+  options?: AggregateOptions<FilterOptionType<F["optionsType"]>, FieldT> & ReadOperationOptions
+): ReadHookResult<AggregateGroup<FieldT>[]> => {
+  const memoizedOptions = useStructuralMemo(options);
+  const plan = useMemo(() => {
+    return aggregateOperation(manager.findMany.operationName, manager.findMany.modelApiIdentifier, memoizedOptions);
+  }, [manager, memoizedOptions]);
+
+  const [rawResult, refresh] = useGadgetQuery(useQueryArgs(plan, options));
+
+  const result = useMemo(() => {
+    const dataPath = [manager.findMany.operationName];
+    const groups = get(rawResult.data, [...dataPath, "aggregate"]);
+    const data = groups ? aggregateGroups<FieldT>(groups) : undefined;
+    const error = ErrorWrapper.errorIfDataAbsent(rawResult, dataPath, options?.pause);
+
+    return { ...rawResult, data, error };
+  }, [manager, options?.pause, rawResult]);
+
+  return [result, refresh];
+};
@@ -1,12 +1,21 @@
-import type { BulkActionFunction, DefaultSelection, GadgetRecord, LimitToKnownKeys, Select } from "@gadgetinc/api-client-core";
+import type {
+  BulkActionFunction,
+  DefaultSelection,
+  GadgetRecord,
+  LimitToKnownKeys,
+  OptimisticActionOptions,
+  Select,
+} from "@gadgetinc/api-client-core";
 import {
   actionOperation,
   capitalizeIdentifier,
+  deleteActionContext,
   disambiguateBulkActionVariables,
   get,
   hydrateRecordArray,
+  optimisticActionContext,
 } from "@gadgetinc/api-client-core";
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useRef } from "react";
 import type { OperationContext, UseMutationState } from "urql";
 import { useGadgetMutation } from "./useGadgetMutation.js";
 import { useStructuralMemo } from "./useStructuralMemo.js";
@@ -17,7 +26,7 @@ import { ErrorWrapper } from "./utils.js";
  * React hook to run a Gadget model bulk action.
  *
  * @param action any bulk action function from a Gadget manager
- * @param options action options, like selecting the fields in the result
+ * @param options action options, like selecting the fields in the result, or an `optimistic` function producing the records the action is expected to return
  *
  * @example
  * ```
@@ -47,7 +56,7 @@ export const useBulkAction = <
   Options extends F["optionsType"]
 >(
   action: F,
-  options?: LimitToKnownKeys<Options, F["optionsType"]>
+  options?: LimitToKnownKeys<Options, F["optionsType"] & OptimisticActionOptions>
 ): ActionHookResult<
   F["hasReturnType"] extends true
     ? any[]
@@ -56,7 +65,12 @@ export const useBulkAction = <
       >[],
   Exclude<F["variablesType"], null | undefined>
 > => {
-  const memoizedOptions = useStructuralMemo(options);
+  // the optimistic function isn't part of the operation, so keep it out of the memoized options to avoid rebuilding the operation each render
+  const { optimistic, ...operationOptions } = (options ?? {}) as OptimisticActionOptions & Record<string, any>;
+  const memoizedOptions = useStructuralMemo(options ? operationOptions : undefined);
+  // read the latest optimistic function when the action runs, so passing a new function each render doesn't change the returned callback
+  const optimisticRef = useRef(optimistic);
+  optimisticRef.current = optimistic;
   const plan = useMemo(() => {
     return actionOperation(
       action.operationName,
@@ -90,6 +104,8 @@ export const useBulkAction = <
           ...context,
           // Adding the model's additional typename ensures document cache will properly refresh, regardless of whether __typename was selected (and sometimes we can't even select it, like delete actions!)
           additionalTypenames: [...(context?.additionalTypenames ?? []), capitalizeIdentifier(action.modelApiIdentifier)],
+          ...optimisticActionContext(action.modelApiIdentifier, optimisticRef.current?.(variables)),
+          ...deleteActionContext(action, variables),
         });
         return processResult({ fetching: false, ...result }, action);
       },
@@ -0,0 +1,57 @@
+import type { CountOptions, FilterOptionType, FindManyFunction } from "@gadgetinc/api-client-core";
+import { countOperation, get } from "@gadgetinc/api-client-core";
+import { useMemo } from "react";
+import { useGadgetQuery } from "./useGadgetQuery.js";
+import { useStructuralMemo } from "./useStructuralMemo.js";
+import type { OptionsType, ReadHookResult, ReadOperationOptions } from "./utils.js";
+import { ErrorWrapper, useQueryArgs } from "./utils.js";
+
+/**
+ * React hook to count the Gadget records of a model on the backend, optionally filtered and searched, without fetching the records themselves. Returns a standard hook result set with a tuple of the result object with `data`, `fetching`, and `error` keys, and a `refetch` function. `data` will be the number of matching records.
+ *
+ * Pass `live: true` to keep the count up to date as records are created, changed or deleted on the backend.
+ *
+ * @param manager Gadget model manager to use
+ * @param options options for filtering and searching the records to count
+ *
+ * @example
+ *
+ * ```
+ * export function UnpublishedPostCount() {
+ *   const [result, refresh] = useCount(api.post, {
+ *     filter: { published: { equals: false } },
+ *     live: true,
+ *   });
+ *
+ *   if (result.error) return <>Error: {result.error.toString()}</>;
+ *   if (result.fetching && result.data === undefined) return <>Counting...</>;
+ *
+ *   return <>{result.data} unpublished posts</>;
+ * }
+ * ```
+ */
+export const useCount = <
+  GivenOptions extends OptionsType, // currently necessary for Options to be a narrow type (e.g., `true` instead of `boolean`)
+  SchemaT,
+  F extends FindManyFunction<GivenOptions, any, SchemaT, any>
+>(
+  manager: { findMany: F },
+  options?: CountOptions<FilterOptionType<F["optionsType"]>> & ReadOperationOptions
+): ReadHookResult<number> => {
+  const memoizedOptions = useStructuralMemo(options);
+  const plan = useMemo(() => {
+    return countOperation(manager.findMany.operationName, manager.findMany.modelApiIdentifier, memoizedOptions);
+  }, [manager, memoizedOptions]);
+
+  const [rawResult, refresh] = useGadgetQuery(useQueryArgs(plan, options));
+
+  const result = useMemo(() => {
+    const dataPath = [manager.findMany.operationName];
+    const data: number | undefined = get(rawResult.data, [...dataPath, "count"]) ?? undefined;
+    const error = ErrorWrapper.errorIfDataAbsent(rawResult, dataPath, options?.pause);
+
+    return { ...rawResult, data, error };
+  }, [manager, options?.pause, rawResult]);
+
+  return [result, refresh];
+};
@@ -0,0 +1,181 @@
+import type {
+  ActionResultSelection,
+  AnyActionFunction,
+  BackgroundActionHandle,
+  BackgroundActionResultOptions,
+  BackgroundActionStatus,
+  EnqueueBackgroundActionOptions,
+} from "@gadgetinc/api-client-core";
+import { enqueueActionRunner } from "@gadgetinc/api-client-core";
+import type { Reducer } from "react";
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import { useConnection } from "./GadgetProvider.js";
+import { useStructuralMemo } from "./useStructuralMemo.js";
+import { ErrorWrapper } from "./utils.js";
+
+export interface EnqueueHookState<Action extends AnyActionFunction, Data = any> {
+  /** If the background action is currently being enqueued */
+  enqueuing: boolean;
+  /** If the background action has been enqueued and the hook is waiting for it to finish. Once the hook stops waiting, like when the `timeoutMs` result option elapses, `status` holds the last known state of the background action, which may still be running. */
+  running: boolean;
+  /** The handle for the most recently enqueued background action */
+  handle?: BackgroundActionHandle<Action>;
+  /** The most recently observed status of the background action, refreshed each time the hook checks on it while waiting for its result */
+  status?: BackgroundActionStatus;
+  /** The result of the background action, once it has completed successfully */
+  data?: Data;
+  /** An error describing why the background action couldn't be enqueued, or why it failed */
+  error?: ErrorWrapper;
+}
+
+export type EnqueueHookOptions<Action extends AnyActionFunction> = EnqueueBackgroundActionOptions<Action> & {
+  /** What fields to select from the result of the background action */
+  select?: ActionResultSelection<Action> | null;
+  /** How to wait for the background action's result, @see BackgroundActionResultOptions */
+  result?: BackgroundActionResultOptions;
+};
+
+export type EnqueueHookResult<Action extends AnyActionFunction, Data = any> = [
+  EnqueueHookState<Action, Data>,
+  (variables: Action["variablesType"], options?: EnqueueBackgroundActionOptions<Action>) => Promise<BackgroundActionHandle<Action>>
+];
+
+type EnqueueAction<Action extends AnyActionFunction> =
+  | { type: "enqueuing" }
+  | { type: "enqueued"; payload: BackgroundActionHandle<Action> }
+  | { type: "status"; payload: BackgroundActionStatus }
+  | { type: "completed"; payload: any }
+  | { type: "error"; payload: ErrorWrapper };
+
+const reducer = <Action extends AnyActionFunction>(
+  state: EnqueueHookState<Action>,
+  action: EnqueueAction<Action>
+): EnqueueHookState<Action> => {
+  switch (action.type) {
+    case "enqueuing":
+      return { enqueuing: true, running: false };
+    case "enqueued":
+      return { ...state, enqueuing: false, running: true, handle: action.payload };
+    case "status":
+      return { ...state, status: action.payload };
+    case "completed":
+      return { ...state, running: false, data: action.payload };
+    case "error":
+      return { ...state, enqueuing: false, running: false, error: action.payload };
+    default:
+      return state;
+  }
+};
+
+/**
+ * React hook to enqueue a Gadget action to run in the background, and track it until it finishes.
+ *
+ * Returns a tuple with the current state of the background action and a function to enqueue it. The state is an object with the following fields:
+ * - `enqueuing`: a boolean describing if the background action is currently being enqueued
+ * - `running`: a boolean describing if the background action has been enqueued and the hook is waiting for it to finish
+ * - `handle`: the `BackgroundActionHandle` for the enqueued background action, for cancelling or retrying it
+ * - `status`: the current status of the background action, refreshed each time the hook checks on it while waiting for its result
+ * - `data`: the result of the background action, once it completes successfully
+ * - `error`: an error object if the background action couldn't be enqueued, if it failed, or if the hook stopped waiting for it
+ *
+ * The enqueue function resolves with the handle as soon as the background action has been enqueued, and throws if it couldn't be enqueued. Enqueuing again replaces the tracked background action with the new one.
+ *
+ * @param action any action function from a Gadget manager, or a global action function
+ * @param options options for enqueuing the background action and for selecting the fields in the result
+ *
+ * @example
+ * ```
+ * export function SendWelcomeEmail(props: { id: string }) {
+ *   const [{ running, status, error }, enqueue] = useEnqueue(api.user.sendWelcomeEmail, { queue: "emails" });
+ *
+ *   return (
+ *     <>
+ *       {error && <>Failed to send welcome email: {error.toString()}</>}
+ *       {running && <>Sending welcome email ({status?.state ?? "waiting"})...</>}
+ *       {status?.outcome == "completed" && <>Welcome email sent!</>}
+ *       <button onClick={() => void enqueue({ id: props.id })}>Send welcome email</button>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export const useEnqueue = <Action extends AnyActionFunction, Data = any>(
+  action: Action,
+  options?: EnqueueHookOptions<Action>
+): EnqueueHookResult<Action, Data> => {
+  // Used to prevent state update if the component is unmounted
+  const mounted = useRef<boolean>(true);
+  // Used to ignore updates about background actions that have been replaced by a newer one
+  const currentRun = useRef<number>(0);
+  // Used to stop waiting for the tracked background action when it is replaced or the component unmounts
+  const tracking = useRef<AbortController>();
+  const memoizedOptions = useStructuralMemo(options);
+  const connection = useConnection();
+
+  const [state, dispatch] = useReducer<Reducer<EnqueueHookState<Action, Data>, EnqueueAction<Action>>>(reducer, {
+    enqueuing: false,
+    running: false,
+  });
+
+  const enqueue = useCallback(
+    async (variables: Action["variablesType"], enqueueOptions?: EnqueueBackgroundActionOptions<Action>) => {
+      const run = ++currentRun.current;
+      const isCurrent = () => mounted.current && currentRun.current == run;
+      tracking.current?.abort();
+      const { select, result: resultOptions, ...hookEnqueueOptions } = memoizedOptions ?? {};
+
+      dispatch({ type: "enqueuing" });
+
+      let handle: BackgroundActionHandle<Action>;
+      try {
+        handle = await enqueueActionRunner(connection, action, variables, { ...hookEnqueueOptions, ...enqueueOptions });
+      } catch (error: any) {
+        const wrapped = ErrorWrapper.forClientSideError(error);
+        if (isCurrent()) dispatch({ type: "error", payload: wrapped });
+        throw wrapped;
+      }
+
+      if (!isCurrent()) return handle;
+      dispatch({ type: "enqueued", payload: handle });
+
+      // track this background action until it finishes, is replaced by a newer one, or the component unmounts
+      const controller = new AbortController();
+      tracking.current = controller;
+      resultOptions?.signal?.addEventListener("abort", () => controller.abort(), { once: true });
+
+      handle
+        .result(select ? { select } : undefined, {
+          ...resultOptions,
+          signal: controller.signal,
+          onStatus: (status) => {
+            resultOptions?.onStatus?.(status);
+            if (!controller.signal.aborted && isCurrent()) dispatch({ type: "status", payload: status });
+          },
+        })
+        .then((data) => {
+          controller.abort();
+          if (isCurrent()) dispatch({ type: "completed", payload: data });
+        })
+        .catch((error) => {
+          controller.abort();
+          // the status reported by the server is kept as is, as the hook may have only stopped waiting for a background action that is still running
+          if (isCurrent()) dispatch({ type: "error", payload: ErrorWrapper.forClientSideError(error) });
+        });
+
+      return handle;
+    },
+    [action, connection, memoizedOptions]
+  );
+
+  // track if we're mounted or not
+  useEffect(() => {
+    mounted.current = true;
+
+    return () => {
+      mounted.current = false;
+      tracking.current?.abort();
+    };
+  }, []);
+
+  return [state, enqueue];
+};